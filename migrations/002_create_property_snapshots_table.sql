@@ -0,0 +1,48 @@
+-- Create property snapshots table (price and status history)
+CREATE TABLE
+    IF NOT EXISTS property_snapshots (
+        id SERIAL PRIMARY KEY,
+        property_id INT NOT NULL REFERENCES properties (id) ON DELETE CASCADE,
+        -- Tracked values at the time of the snapshot
+        total_price DECIMAL(15, 2),
+        price_per_sqm DECIMAL(10, 2),
+        rates_and_taxes DECIMAL(10, 2),
+        levies DECIMAL(10, 2),
+        status VARCHAR(50),
+        -- Timestamps
+        recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Create indexes for timeline lookups
+CREATE INDEX IF NOT EXISTS idx_property_snapshots_property_id ON property_snapshots (property_id, recorded_at);
+
+-- Seed the history with the current state of existing properties
+INSERT INTO
+    property_snapshots (
+        property_id,
+        total_price,
+        price_per_sqm,
+        rates_and_taxes,
+        levies,
+        status,
+        recorded_at
+    )
+SELECT
+    p.id,
+    p.total_price,
+    p.price_per_sqm,
+    p.rates_and_taxes,
+    p.levies,
+    p.status,
+    p.updated_at
+FROM
+    properties p
+WHERE
+    NOT EXISTS (
+        SELECT
+            1
+        FROM
+            property_snapshots s
+        WHERE
+            s.property_id = p.id
+    );
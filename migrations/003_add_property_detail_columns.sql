@@ -0,0 +1,9 @@
+-- Add columns filled by the listing detail page enrichment pass
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS erf_size_sqm DECIMAL(12, 2),
+ADD COLUMN IF NOT EXISTS parking_spaces INT,
+ADD COLUMN IF NOT EXISTS pets_allowed BOOLEAN,
+ADD COLUMN IF NOT EXISTS description TEXT,
+ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_properties_enriched_at ON properties (enriched_at);
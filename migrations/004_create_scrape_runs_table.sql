@@ -0,0 +1,27 @@
+-- Create scrape runs table (one row per suburb scrape)
+CREATE TABLE
+    IF NOT EXISTS scrape_runs (
+        id SERIAL PRIMARY KEY,
+        suburb VARCHAR(255) NOT NULL,
+        resolved_url VARCHAR(500),
+        -- Timing
+        started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        finished_at TIMESTAMP,
+        -- Outcome
+        success BOOLEAN,
+        pages_visited INT NOT NULL DEFAULT 0,
+        properties_found INT NOT NULL DEFAULT 0,
+        properties_inserted INT NOT NULL DEFAULT 0,
+        properties_updated INT NOT NULL DEFAULT 0,
+        properties_failed INT NOT NULL DEFAULT 0,
+        errors TEXT[] NOT NULL DEFAULT '{}',
+        screenshot_dir VARCHAR(500)
+    );
+
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_suburb ON scrape_runs (suburb, started_at);
+
+-- Link each property to the run that last saw it
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS last_run_id INT REFERENCES scrape_runs (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_properties_last_run_id ON properties (last_run_id);
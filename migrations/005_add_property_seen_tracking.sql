@@ -0,0 +1,20 @@
+-- Track when each listing was first and last seen, and when it disappeared
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS first_seen_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS removed_at TIMESTAMP;
+
+UPDATE properties
+SET
+    first_seen_at = COALESCE(first_seen_at, created_at),
+    last_seen_at = COALESCE(last_seen_at, updated_at);
+
+ALTER TABLE properties
+ALTER COLUMN first_seen_at SET DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN last_seen_at SET DEFAULT CURRENT_TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_properties_removed_at ON properties (suburb, removed_at);
+
+-- Record how many listings each run marked as removed
+ALTER TABLE scrape_runs
+ADD COLUMN IF NOT EXISTS properties_removed INT NOT NULL DEFAULT 0;
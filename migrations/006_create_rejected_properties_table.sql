@@ -0,0 +1,24 @@
+-- Quarantine for scraped records that failed validation
+CREATE TABLE
+    IF NOT EXISTS rejected_properties (
+        id SERIAL PRIMARY KEY,
+        run_id INT REFERENCES scrape_runs (id) ON DELETE SET NULL,
+        suburb VARCHAR(255) NOT NULL,
+        property_url TEXT,
+        -- Why it was rejected, e.g. 'price_out_of_range'
+        reasons TEXT[] NOT NULL,
+        messages TEXT[] NOT NULL DEFAULT '{}',
+        -- What the parser extracted, and the card it came from
+        parsed JSONB NOT NULL,
+        raw_html TEXT,
+        rejected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+CREATE INDEX IF NOT EXISTS idx_rejected_properties_suburb ON rejected_properties (suburb, rejected_at);
+
+CREATE INDEX IF NOT EXISTS idx_rejected_properties_run_id ON rejected_properties (run_id);
+
+-- Per-run rejection totals, e.g. {"price_out_of_range": 3}
+ALTER TABLE scrape_runs
+ADD COLUMN IF NOT EXISTS properties_rejected INT NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS rejection_counts JSONB NOT NULL DEFAULT '{}';
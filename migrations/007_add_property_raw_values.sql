@@ -0,0 +1,10 @@
+-- Keep the listing's own wording next to the normalised values
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS property_type_raw VARCHAR(255),
+ADD COLUMN IF NOT EXISTS status_raw VARCHAR(100);
+
+-- Existing values are the only raw text we have; `renormalise` maps them
+UPDATE properties
+SET
+    property_type_raw = COALESCE(property_type_raw, property_type),
+    status_raw = COALESCE(status_raw, status);
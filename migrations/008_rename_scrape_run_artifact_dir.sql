@@ -0,0 +1,3 @@
+-- Run folders now hold page HTML as well as screenshots
+ALTER TABLE scrape_runs
+RENAME COLUMN screenshot_dir TO artifact_dir;
@@ -0,0 +1,33 @@
+-- Saved searches checked after every scrape
+CREATE TABLE
+    IF NOT EXISTS saved_searches (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL UNIQUE,
+        suburb VARCHAR(255) NOT NULL,
+        -- Criteria; NULL or empty means any
+        min_price DECIMAL(15, 2),
+        max_price DECIMAL(15, 2),
+        property_types TEXT[] NOT NULL DEFAULT '{}',
+        min_bedrooms INT,
+        -- Smallest drop worth an alert, as a percentage of the previous price
+        price_drop_percent DECIMAL(5, 2) NOT NULL DEFAULT 5,
+        -- Where alerts go: 'stdout', 'file:<path>' or a webhook URL
+        sinks TEXT[] NOT NULL DEFAULT '{stdout}',
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_suburb ON saved_searches (LOWER(suburb));
+
+-- Alerts already sent, so the same one is never sent twice
+CREATE TABLE
+    IF NOT EXISTS sent_alerts (
+        id SERIAL PRIMARY KEY,
+        saved_search_id INT NOT NULL REFERENCES saved_searches (id) ON DELETE CASCADE,
+        property_id INT NOT NULL REFERENCES properties (id) ON DELETE CASCADE,
+        -- 'new_listing' or 'price_drop'
+        kind VARCHAR(20) NOT NULL,
+        -- Snapshot holding the dropped price; 0 for new listings
+        snapshot_id INT NOT NULL DEFAULT 0,
+        sent_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (saved_search_id, property_id, kind, snapshot_id)
+    );
@@ -0,0 +1,17 @@
+-- Rental listings are stored next to sale listings, told apart by listing_type
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS listing_type VARCHAR(10) NOT NULL DEFAULT 'sale',
+ADD COLUMN IF NOT EXISTS monthly_rent DECIMAL(12, 2),
+ADD COLUMN IF NOT EXISTS deposit DECIMAL(12, 2),
+ADD COLUMN IF NOT EXISTS available_from DATE,
+ADD COLUMN IF NOT EXISTS furnished BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_properties_suburb_listing_type ON properties (suburb, listing_type);
+
+-- Rent changes are tracked like price changes
+ALTER TABLE property_snapshots
+ADD COLUMN IF NOT EXISTS monthly_rent DECIMAL(12, 2);
+
+-- Which side of the market a run scraped
+ALTER TABLE scrape_runs
+ADD COLUMN IF NOT EXISTS listing_type VARCHAR(10) NOT NULL DEFAULT 'sale';
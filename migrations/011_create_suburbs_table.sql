@@ -0,0 +1,18 @@
+-- Suburbs resolved to their Property24 listing URL, so scrapes can skip the
+-- site search
+CREATE TABLE
+    IF NOT EXISTS suburbs (
+        id SERIAL PRIMARY KEY,
+        -- Name scrapes are run with, e.g. 'Parkhurst'
+        name VARCHAR(255) NOT NULL,
+        city VARCHAR(255),
+        province VARCHAR(255),
+        -- Numeric id at the end of Property24 listing URLs
+        location_id INT,
+        -- Canonical for-sale results URL
+        listing_url VARCHAR(500) NOT NULL,
+        resolved_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suburbs_name ON suburbs (LOWER(name));
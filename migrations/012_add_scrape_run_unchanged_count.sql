@@ -0,0 +1,3 @@
+-- Listings a run saw again without any change are counted apart from updates
+ALTER TABLE scrape_runs
+ADD COLUMN IF NOT EXISTS properties_unchanged INT NOT NULL DEFAULT 0;
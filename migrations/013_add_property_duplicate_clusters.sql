@@ -0,0 +1,10 @@
+-- Listings of the same physical property (e.g. one unit listed by several
+-- agencies) share the id of the cluster's canonical listing
+ALTER TABLE properties
+ADD COLUMN IF NOT EXISTS canonical_property_id INT REFERENCES properties (id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS duplicate_confidence DECIMAL(4, 3),
+-- Set when a person confirmed the cluster or split the listing out of one;
+-- duplicate detection leaves these listings as they are
+ADD COLUMN IF NOT EXISTS duplicate_confirmed BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_properties_canonical_property_id ON properties (canonical_property_id);
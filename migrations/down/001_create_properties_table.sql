@@ -0,0 +1,2 @@
+-- Drop properties table
+DROP TABLE IF EXISTS properties;
@@ -0,0 +1,2 @@
+-- Drop property snapshots table
+DROP TABLE IF EXISTS property_snapshots;
@@ -0,0 +1,9 @@
+-- Remove detail page enrichment columns
+DROP INDEX IF EXISTS idx_properties_enriched_at;
+
+ALTER TABLE properties
+DROP COLUMN IF EXISTS erf_size_sqm,
+DROP COLUMN IF EXISTS parking_spaces,
+DROP COLUMN IF EXISTS pets_allowed,
+DROP COLUMN IF EXISTS description,
+DROP COLUMN IF EXISTS enriched_at;
@@ -0,0 +1,7 @@
+-- Remove scrape runs table and property link
+DROP INDEX IF EXISTS idx_properties_last_run_id;
+
+ALTER TABLE properties
+DROP COLUMN IF EXISTS last_run_id;
+
+DROP TABLE IF EXISTS scrape_runs;
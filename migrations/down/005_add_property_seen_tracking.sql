@@ -0,0 +1,10 @@
+-- Remove listing seen tracking
+ALTER TABLE scrape_runs
+DROP COLUMN IF EXISTS properties_removed;
+
+DROP INDEX IF EXISTS idx_properties_removed_at;
+
+ALTER TABLE properties
+DROP COLUMN IF EXISTS first_seen_at,
+DROP COLUMN IF EXISTS last_seen_at,
+DROP COLUMN IF EXISTS removed_at;
@@ -0,0 +1,6 @@
+-- Remove rejected properties quarantine
+ALTER TABLE scrape_runs
+DROP COLUMN IF EXISTS properties_rejected,
+DROP COLUMN IF EXISTS rejection_counts;
+
+DROP TABLE IF EXISTS rejected_properties;
@@ -0,0 +1,4 @@
+-- Remove raw property type and status text
+ALTER TABLE properties
+DROP COLUMN IF EXISTS property_type_raw,
+DROP COLUMN IF EXISTS status_raw;
@@ -0,0 +1,3 @@
+-- Restore the screenshot_dir column name
+ALTER TABLE scrape_runs
+RENAME COLUMN artifact_dir TO screenshot_dir;
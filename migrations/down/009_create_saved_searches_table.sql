@@ -0,0 +1,4 @@
+-- Remove saved searches and their alert history
+DROP TABLE IF EXISTS sent_alerts;
+
+DROP TABLE IF EXISTS saved_searches;
@@ -0,0 +1,19 @@
+-- Remove rental listings and their columns
+DELETE FROM properties
+WHERE
+    listing_type = 'rent';
+
+ALTER TABLE scrape_runs
+DROP COLUMN IF EXISTS listing_type;
+
+ALTER TABLE property_snapshots
+DROP COLUMN IF EXISTS monthly_rent;
+
+DROP INDEX IF EXISTS idx_properties_suburb_listing_type;
+
+ALTER TABLE properties
+DROP COLUMN IF EXISTS listing_type,
+DROP COLUMN IF EXISTS monthly_rent,
+DROP COLUMN IF EXISTS deposit,
+DROP COLUMN IF EXISTS available_from,
+DROP COLUMN IF EXISTS furnished;
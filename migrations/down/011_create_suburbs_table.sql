@@ -0,0 +1,2 @@
+-- Forget resolved suburb URLs; scrapes fall back to the site search
+DROP TABLE IF EXISTS suburbs;
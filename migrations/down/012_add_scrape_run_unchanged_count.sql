@@ -0,0 +1,3 @@
+-- Remove the unchanged listing count from scrape runs
+ALTER TABLE scrape_runs
+DROP COLUMN IF EXISTS properties_unchanged;
@@ -0,0 +1,7 @@
+-- Forget duplicate clusters
+DROP INDEX IF EXISTS idx_properties_canonical_property_id;
+
+ALTER TABLE properties
+DROP COLUMN IF EXISTS canonical_property_id,
+DROP COLUMN IF EXISTS duplicate_confidence,
+DROP COLUMN IF EXISTS duplicate_confirmed;
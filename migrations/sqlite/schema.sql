@@ -0,0 +1,132 @@
+-- SQLite store schema (`--store sqlite`), equivalent to the Postgres tables
+-- the scrape-and-list flow uses after all migrations. Timestamps are ISO 8601
+-- UTC text, dates are YYYY-MM-DD, booleans 0/1 and arrays JSON text.
+CREATE TABLE
+    IF NOT EXISTS scrape_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        suburb TEXT NOT NULL,
+        listing_type TEXT NOT NULL DEFAULT 'sale',
+        resolved_url TEXT,
+        -- Timing
+        started_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        finished_at TEXT,
+        -- Outcome
+        success INTEGER,
+        pages_visited INTEGER NOT NULL DEFAULT 0,
+        properties_found INTEGER NOT NULL DEFAULT 0,
+        properties_inserted INTEGER NOT NULL DEFAULT 0,
+        properties_updated INTEGER NOT NULL DEFAULT 0,
+        properties_failed INTEGER NOT NULL DEFAULT 0,
+        properties_unchanged INTEGER NOT NULL DEFAULT 0,
+        properties_removed INTEGER NOT NULL DEFAULT 0,
+        properties_rejected INTEGER NOT NULL DEFAULT 0,
+        rejection_counts TEXT NOT NULL DEFAULT '{}',
+        errors TEXT NOT NULL DEFAULT '[]',
+        artifact_dir TEXT
+    );
+
+CREATE INDEX IF NOT EXISTS idx_scrape_runs_suburb ON scrape_runs (suburb, started_at);
+
+CREATE TABLE
+    IF NOT EXISTS properties (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        property_url TEXT UNIQUE NOT NULL,
+        listing_type TEXT NOT NULL DEFAULT 'sale',
+        -- Address fields
+        street_address TEXT,
+        estate_complex TEXT,
+        suburb TEXT NOT NULL,
+        city TEXT,
+        postal_code TEXT,
+        -- Property measurements
+        floor_size_sqm REAL,
+        erf_size_sqm REAL,
+        -- Price information
+        total_price REAL,
+        price_per_sqm REAL,
+        rates_and_taxes REAL,
+        levies REAL,
+        -- Rental information
+        monthly_rent REAL,
+        deposit REAL,
+        available_from TEXT,
+        furnished INTEGER,
+        -- Property status
+        status TEXT,
+        status_raw TEXT,
+        -- Property details
+        property_type TEXT,
+        property_type_raw TEXT,
+        bedrooms INTEGER,
+        bathrooms INTEGER,
+        parking_spaces INTEGER,
+        pets_allowed INTEGER,
+        description TEXT,
+        -- Listing information
+        listing_date TEXT,
+        scrape_date TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        enriched_at TEXT,
+        last_run_id INTEGER REFERENCES scrape_runs (id) ON DELETE SET NULL,
+        first_seen_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        last_seen_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        removed_at TEXT,
+        -- Duplicate cluster (see migration 013)
+        canonical_property_id INTEGER REFERENCES properties (id) ON DELETE SET NULL,
+        duplicate_confidence REAL,
+        duplicate_confirmed INTEGER NOT NULL DEFAULT 0,
+        -- Timestamps
+        created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+CREATE INDEX IF NOT EXISTS idx_properties_suburb ON properties (suburb);
+
+CREATE INDEX IF NOT EXISTS idx_properties_status ON properties (status);
+
+CREATE INDEX IF NOT EXISTS idx_properties_listing_date ON properties (listing_date);
+
+CREATE INDEX IF NOT EXISTS idx_properties_property_type ON properties (property_type);
+
+CREATE INDEX IF NOT EXISTS idx_properties_enriched_at ON properties (enriched_at);
+
+CREATE INDEX IF NOT EXISTS idx_properties_last_run_id ON properties (last_run_id);
+
+CREATE INDEX IF NOT EXISTS idx_properties_removed_at ON properties (suburb, removed_at);
+
+CREATE INDEX IF NOT EXISTS idx_properties_suburb_listing_type ON properties (suburb, listing_type);
+
+-- Price and status history
+CREATE TABLE
+    IF NOT EXISTS property_snapshots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        property_id INTEGER NOT NULL REFERENCES properties (id) ON DELETE CASCADE,
+        -- Tracked values at the time of the snapshot
+        total_price REAL,
+        price_per_sqm REAL,
+        rates_and_taxes REAL,
+        levies REAL,
+        status TEXT,
+        monthly_rent REAL,
+        -- Timestamps
+        recorded_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+CREATE INDEX IF NOT EXISTS idx_property_snapshots_property_id ON property_snapshots (property_id, recorded_at);
+
+-- Quarantine for scraped records that failed validation
+CREATE TABLE
+    IF NOT EXISTS rejected_properties (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER REFERENCES scrape_runs (id) ON DELETE SET NULL,
+        suburb TEXT NOT NULL,
+        property_url TEXT,
+        reasons TEXT NOT NULL,
+        messages TEXT NOT NULL DEFAULT '[]',
+        parsed TEXT NOT NULL,
+        raw_html TEXT,
+        rejected_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+
+CREATE INDEX IF NOT EXISTS idx_rejected_properties_suburb ON rejected_properties (suburb, rejected_at);
+
+CREATE INDEX IF NOT EXISTS idx_rejected_properties_run_id ON rejected_properties (run_id);
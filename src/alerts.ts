@@ -0,0 +1,285 @@
+import fs from "fs";
+import path from "path";
+import {
+  claimAlert,
+  getLatestPriceChanges,
+  getSavedSearches,
+  queryProperties,
+  releaseAlert,
+  withNumericDecimals,
+} from "./database";
+import { formatAmount, formatDelta } from "./format";
+import { logger } from "./logger";
+import type { Alert, PropertyFilter, SavedSearch } from "./types";
+
+const WEBHOOK_TIMEOUT = 10000;
+
+export type AlertSink =
+  | { type: "stdout" }
+  | { type: "file"; path: string }
+  | { type: "webhook"; url: string };
+
+/**
+ * Parse a sink as stored on a saved search: `stdout`, `file:<path>` (alerts
+ * are appended as JSON lines) or an http(s) webhook URL (alerts are POSTed
+ * as JSON).
+ */
+export function parseSink(spec: string): AlertSink {
+  const value = spec.trim();
+  if (value === "stdout") {
+    return { type: "stdout" };
+  }
+  if (value.startsWith("file:") && value.length > "file:".length) {
+    return { type: "file", path: value.slice("file:".length) };
+  }
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      return { type: "webhook", url: new URL(value).toString() };
+    } catch {
+      // Reported below
+    }
+  }
+  throw new Error(
+    `Invalid alert sink "${spec}", expected stdout, file:<path> or an http(s) URL`
+  );
+}
+
+/**
+ * The properties `search` matches, among those saved by `runId` when given.
+ */
+function searchFilter(search: SavedSearch, runId?: number): PropertyFilter {
+  return {
+    suburbs: [search.suburb],
+    suburbCaseInsensitive: true,
+    // Searches are on sale prices
+    listingTypes: ["sale"],
+    // Sold listings aren't worth an alert
+    statuses: ["no_offer", "under_offer"],
+    ...(search.property_types.length > 0 && {
+      propertyTypes: search.property_types,
+    }),
+    ...(search.min_price !== undefined && { minPrice: search.min_price }),
+    ...(search.max_price !== undefined && { maxPrice: search.max_price }),
+    ...(search.min_bedrooms !== undefined && {
+      minBedrooms: search.min_bedrooms,
+    }),
+    ...(runId !== undefined && { lastRunId: runId }),
+  };
+}
+
+/**
+ * Find what a scrape run means for the saved searches watching `suburb`:
+ * listings that match a search for the first time, and matching listings
+ * whose latest price is at least `price_drop_percent` below the one before.
+ */
+export async function findAlerts(
+  suburb: string,
+  runId: number
+): Promise<Alert[]> {
+  const searches = await getSavedSearches(suburb);
+  const alerts: Alert[] = [];
+
+  for (const search of searches) {
+    const matches = (await queryProperties(searchFilter(search, runId))).map(
+      withNumericDecimals
+    );
+    const ids = matches
+      .map((property) => property.id)
+      .filter((id): id is number => id !== undefined);
+    if (ids.length === 0) continue;
+
+    const changes = new Map(
+      (await getLatestPriceChanges(ids)).map((change) => [
+        change.property_id,
+        change,
+      ])
+    );
+
+    for (const property of matches) {
+      alerts.push({ kind: "new_listing", search, property });
+
+      const change = property.id !== undefined && changes.get(property.id);
+      if (!change || change.previous_price <= 0) continue;
+
+      const dropPercent =
+        ((change.previous_price - change.total_price) / change.previous_price) *
+        100;
+      if (dropPercent > 0 && dropPercent >= search.price_drop_percent) {
+        alerts.push({
+          kind: "price_drop",
+          search,
+          property,
+          snapshot_id: change.snapshot_id,
+          previous_price: change.previous_price,
+          drop_percent: Math.round(dropPercent * 10) / 10,
+        });
+      }
+    }
+  }
+
+  return alerts;
+}
+
+/**
+ * Send the alerts for a scrape run that haven't been sent before. Each alert
+ * is recorded in `sent_alerts` before delivery so it is sent at most once; if
+ * every sink fails it is released again to be retried after the next scrape.
+ * Returns the number of alerts sent.
+ */
+export async function sendAlerts(
+  suburb: string,
+  runId: number
+): Promise<number> {
+  let sent = 0;
+
+  for (const alert of await findAlerts(suburb, runId)) {
+    const searchId = alert.search.id;
+    const propertyId = alert.property.id;
+    if (searchId === undefined || propertyId === undefined) continue;
+
+    const claimed = await claimAlert(
+      searchId,
+      propertyId,
+      alert.kind,
+      alert.snapshot_id
+    );
+    if (!claimed) continue;
+
+    const delivered = await deliverAlert(alert);
+    if (delivered) {
+      sent++;
+    } else {
+      await releaseAlert(searchId, propertyId, alert.kind, alert.snapshot_id);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Mark everything a new saved search already matches, and their latest price
+ * changes, as alerted so only what happens from now on is reported. Returns
+ * the number of listings matched.
+ */
+export async function recordExistingMatches(
+  search: SavedSearch
+): Promise<number> {
+  const searchId = search.id;
+  if (searchId === undefined) return 0;
+
+  const ids = (await queryProperties(searchFilter(search)))
+    .map((property) => property.id)
+    .filter((id): id is number => id !== undefined);
+  if (ids.length === 0) return 0;
+
+  for (const id of ids) {
+    await claimAlert(searchId, id, "new_listing");
+  }
+  for (const change of await getLatestPriceChanges(ids)) {
+    await claimAlert(
+      searchId,
+      change.property_id,
+      "price_drop",
+      change.snapshot_id
+    );
+  }
+  return ids.length;
+}
+
+/**
+ * Send an alert to each of its search's sinks. A failing sink is logged and
+ * the others still run; returns whether at least one sink succeeded.
+ */
+export async function deliverAlert(alert: Alert): Promise<boolean> {
+  const payload = alertPayload(alert);
+  let delivered = false;
+
+  for (const spec of alert.search.sinks) {
+    try {
+      const sink = parseSink(spec);
+      if (sink.type === "stdout") {
+        logger.record("alert", payload, () => console.log(formatAlert(alert)));
+      } else if (sink.type === "file") {
+        await fs.promises.mkdir(path.dirname(path.resolve(sink.path)), {
+          recursive: true,
+        });
+        await fs.promises.appendFile(sink.path, `${JSON.stringify(payload)}\n`);
+      } else {
+        await postWebhook(sink.url, payload);
+      }
+      delivered = true;
+    } catch (error) {
+      logger.warn(
+        `Could not send alert to ${spec}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { search: alert.search.name, sink: spec }
+      );
+    }
+  }
+
+  return delivered;
+}
+
+async function postWebhook(
+  url: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+  });
+  if (!response.ok) {
+    throw new Error(`webhook responded ${response.status}`);
+  }
+}
+
+/**
+ * The JSON body sent to file and webhook sinks.
+ */
+export function alertPayload(alert: Alert): Record<string, unknown> {
+  const { property } = alert;
+  return {
+    kind: alert.kind,
+    search: alert.search.name,
+    property: {
+      id: property.id,
+      property_url: property.property_url,
+      street_address: property.street_address ?? null,
+      suburb: property.suburb,
+      property_type: property.property_type ?? null,
+      bedrooms: property.bedrooms ?? null,
+      floor_size_sqm: property.floor_size_sqm ?? null,
+      total_price: property.total_price ?? null,
+    },
+    ...(alert.kind === "price_drop" && {
+      previous_price: alert.previous_price,
+      drop_percent: alert.drop_percent,
+    }),
+    sent_at: new Date().toISOString(),
+  };
+}
+
+function formatAlert(alert: Alert): string {
+  const { property } = alert;
+  const place = property.street_address
+    ? `${property.street_address}, ${property.suburb}`
+    : property.suburb;
+  const price = formatAmount(property.total_price);
+
+  if (alert.kind === "price_drop") {
+    return `📉 [${alert.search.name}] Price drop: ${place} ${formatAmount(
+      alert.previous_price
+    )} → ${price}${formatDelta(
+      property.total_price,
+      alert.previous_price
+    )}\n   ${property.property_url}`;
+  }
+  return `🔔 [${alert.search.name}] New listing: ${place} ${price}${
+    property.bedrooms !== undefined && property.bedrooms !== null
+      ? `, ${property.bedrooms} bed`
+      : ""
+  }\n   ${property.property_url}`;
+}
@@ -0,0 +1,65 @@
+import fs from "fs";
+import path from "path";
+import type { ArtifactFormat, ArtifactMode } from "./types";
+
+export const ARTIFACT_MODES: ArtifactMode[] = ["none", "on-error", "all"];
+
+export const ARTIFACT_FORMATS: ArtifactFormat[] = [
+  "screenshot",
+  "html",
+  "both",
+];
+
+export const DEFAULT_ARTIFACTS_DIR = path.join("tmp", "artifacts");
+
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as "14d", "12h" or "2w" into milliseconds.
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)\s*([hdw])$/i);
+  if (!match?.[1] || !match[2]) {
+    throw new Error(
+      `Invalid duration "${value}", expected e.g. 12h, 14d or 2w`
+    );
+  }
+  return parseInt(match[1], 10) * (DURATION_UNITS[match[2].toLowerCase()] ?? 0);
+}
+
+/**
+ * Delete run folders in `dir` last modified before `olderThan` ago. Returns
+ * the folders removed (or that would be, with `dryRun`).
+ */
+export async function cleanupArtifacts(
+  dir: string,
+  olderThan: number,
+  options: { dryRun?: boolean } = {}
+): Promise<string[]> {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const cutoff = Date.now() - olderThan;
+  const removed: string[] = [];
+
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+
+    const folder = path.join(dir, entry.name);
+    const stats = await fs.promises.stat(folder);
+    if (stats.mtimeMs >= cutoff) continue;
+
+    if (!options.dryRun) {
+      await fs.promises.rm(folder, { recursive: true, force: true });
+    }
+    removed.push(folder);
+  }
+
+  return removed.sort();
+}
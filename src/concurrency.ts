@@ -0,0 +1,26 @@
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ * Results keep the order of `items`; a rejected call rejects the whole run,
+ * so workers that should not abort the batch must catch their own errors.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await worker(items[index] as T, index);
+      }
+    }
+  );
+
+  await Promise.all(runners);
+  return results;
+}
@@ -0,0 +1,164 @@
+/**
+ * A parsed five-field cron expression (minute hour day-of-month month
+ * day-of-week), evaluated in local time.
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were "*"; when both are restricted a day matching
+  // either one is enough, as in cron
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is accepted as Sunday and folded onto 0
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+// Give up looking for a match after this many years; 29 February needs up
+// to 8 (e.g. 2096 to 2104)
+const SEARCH_YEARS = 8;
+
+/**
+ * Parse a cron expression such as "0 6 * * 1-5" or "*\/30 * * * *". Each
+ * field takes `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`) and
+ * comma-separated lists of those. `@hourly`, `@daily`, `@weekly`,
+ * `@monthly` and `@yearly` are accepted too.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const parts = expanded.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(
+      `Invalid cron expression "${expression}": expected 5 fields, got ${parts.length}`
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map(
+    (field, index) => parseField(parts[index] as string, field, expression)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === "*",
+    anyDayOfWeek: parts[4] === "*",
+  };
+}
+
+function parseField(
+  text: string,
+  field: (typeof FIELDS)[number],
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+  const fail = (): never => {
+    throw new Error(
+      `Invalid cron expression "${expression}": bad ${field.name} "${text}" (${field.min}-${field.max})`
+    );
+  };
+
+  for (const part of text.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) fail();
+
+    const [, range, start, end, step] = match as RegExpMatchArray;
+    let from: number = field.min;
+    let to: number = field.max;
+    if (range !== "*") {
+      from = Number(start);
+      // "5/15" means from 5 to the end in steps of 15
+      to = end !== undefined ? Number(end) : step !== undefined ? to : from;
+    }
+    const increment = step !== undefined ? Number(step) : 1;
+
+    if (from < field.min || to > field.max || from > to || increment < 1) {
+      fail();
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Whether `date` (to the minute, local time) matches the schedule.
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.has(date.getMinutes()) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.months.has(date.getMonth() + 1) &&
+    matchesDay(schedule, date)
+  );
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first minute strictly after `after` that matches the schedule. Skips a
+ * month, day or hour at a time when that part can't match.
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date {
+  const candidate = new Date(after.getTime());
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+  const lastYear = candidate.getFullYear() + SEARCH_YEARS;
+
+  while (candidate.getFullYear() <= lastYear) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      candidate.setHours(0, 0);
+    } else if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      candidate.setHours(0, 0);
+    } else if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1);
+    } else {
+      return candidate;
+    }
+  }
+
+  throw new Error(
+    `Cron expression "${schedule.expression}" never matches (e.g. 31 February)`
+  );
+}
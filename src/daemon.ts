@@ -0,0 +1,392 @@
+import fs from "fs";
+import path from "path";
+import type { Browser } from "puppeteer";
+import { nextCronRun, parseCron } from "./cron";
+import type { CronSchedule } from "./cron";
+import { tryLockSuburb } from "./database";
+import { logger } from "./logger";
+import { LISTING_TYPES } from "./normalise";
+import { launchBrowser } from "./scraper";
+import type {
+  ListingType,
+  ScheduleConfig,
+  ScheduleEntry,
+  ScraperResult,
+} from "./types";
+
+export const DEFAULT_DAEMON_CONCURRENCY = 2;
+
+// Longest sleep between schedule checks, so clock changes are noticed
+const MAX_TICK_DELAY = 60 * 1000;
+
+// Times a run is retried after the browser crashed under it
+const CRASH_RETRIES = 1;
+
+/**
+ * Scrape and save one suburb using the daemon's shared browser.
+ */
+export type ScheduledScrape = (
+  entry: ScheduleEntry,
+  browser: Browser
+) => Promise<ScraperResult>;
+
+interface ScheduledSuburb {
+  entry: ScheduleEntry;
+  schedule: CronSchedule;
+  nextRun: Date;
+}
+
+/**
+ * Load and validate a schedule file, e.g.
+ * `{ "concurrency": 2, "suburbs": [{ "suburb": "Sandton", "cron": "0 6 * * *" }] }`.
+ * Entries without a `mode` get `defaultMode`.
+ */
+export function loadScheduleConfig(
+  file: string,
+  defaultMode: ListingType = "sale"
+): ScheduleConfig {
+  const configPath = path.resolve(file);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read schedule ${configPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const problems: string[] = [];
+  const record = (typeof raw === "object" && raw !== null ? raw : {}) as Record<
+    string,
+    unknown
+  >;
+  const { concurrency, suburbs } = record;
+
+  if (
+    concurrency !== undefined &&
+    (!Number.isInteger(concurrency) || (concurrency as number) < 1)
+  ) {
+    problems.push("concurrency must be a positive whole number");
+  }
+  if (!Array.isArray(suburbs) || suburbs.length === 0) {
+    problems.push("suburbs must be a non-empty array");
+  } else {
+    const seen = new Set<string>();
+    suburbs.forEach((entry: Record<string, unknown>, index: number) => {
+      const label = `suburbs[${index}]`;
+      const validMode =
+        entry?.mode === undefined ||
+        LISTING_TYPES.includes(entry.mode as ListingType);
+      if (!validMode) {
+        problems.push(
+          `${label}.mode must be one of ${LISTING_TYPES.join(", ")}`
+        );
+      }
+
+      if (typeof entry?.suburb !== "string" || entry.suburb.trim() === "") {
+        problems.push(`${label}.suburb must be a non-empty string`);
+      } else if (validMode) {
+        // The same suburb may be scheduled once for sales and once for rentals
+        const key = `${entry.mode ?? defaultMode}:${entry.suburb
+          .trim()
+          .toLowerCase()}`;
+        if (seen.has(key)) {
+          problems.push(`${label}.suburb "${entry.suburb}" is listed twice`);
+        } else {
+          seen.add(key);
+        }
+      }
+
+      if (typeof entry?.cron !== "string") {
+        problems.push(`${label}.cron must be a cron expression`);
+      } else {
+        try {
+          parseCron(entry.cron);
+        } catch (error) {
+          problems.push(
+            `${label}.cron: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      }
+
+      if (
+        entry?.maxPages !== undefined &&
+        (!Number.isInteger(entry.maxPages) || (entry.maxPages as number) < 1)
+      ) {
+        problems.push(`${label}.maxPages must be a positive whole number`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid schedule ${configPath}:\n  - ${problems.join("\n  - ")}`
+    );
+  }
+  const config = raw as ScheduleConfig;
+  return {
+    ...config,
+    suburbs: config.suburbs.map((entry) => ({
+      ...entry,
+      mode: entry.mode ?? defaultMode,
+    })),
+  };
+}
+
+/** Identifies a suburb's sale or rental scrape among running and queued ones */
+function entryKey(entry: ScheduleEntry): string {
+  return `${entry.mode ?? "sale"}:${entry.suburb.toLowerCase()}`;
+}
+
+/**
+ * Runs scheduled scrapes until stopped. At most `concurrency` scrapes run at
+ * once, sharing one browser that is relaunched if it crashes. A suburb is
+ * skipped when its previous run is still going, here or in another process
+ * (checked with a Postgres advisory lock).
+ */
+export class ScrapeDaemon {
+  private suburbs: ScheduledSuburb[];
+  private queue: ScheduleEntry[] = [];
+  private running = new Map<string, Promise<void>>();
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private stopping: boolean = false;
+
+  constructor(
+    config: ScheduleConfig,
+    private options: {
+      concurrency: number;
+      headless: boolean;
+      scrape: ScheduledScrape;
+    }
+  ) {
+    const now = new Date();
+    this.suburbs = config.suburbs.map((entry) => {
+      const schedule = parseCron(entry.cron);
+      return { entry, schedule, nextRun: nextCronRun(schedule, now) };
+    });
+  }
+
+  start(): void {
+    for (const { entry, nextRun } of this.suburbs) {
+      logger.info(
+        `${entry.suburb}${entry.mode === "rent" ? " (rentals)" : ""}: "${
+          entry.cron
+        }", next run ${nextRun.toLocaleString()}`,
+        { suburb: entry.suburb, mode: entry.mode, cron: entry.cron, nextRun },
+        { icon: "🗓️" }
+      );
+    }
+    this.scheduleTick();
+  }
+
+  /**
+   * Stop scheduling, drop queued runs and wait for running ones. Runs still
+   * going after `timeout` ms are cut short by closing the browser, which
+   * makes them fail (and be recorded) quickly.
+   */
+  async stop(timeout: number): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.queue = [];
+
+    const running = Promise.all(this.running.values());
+    if (this.running.size > 0) {
+      logger.info(
+        `Waiting for ${this.running.size} running scrape(s) to finish...`,
+        { suburbs: [...this.running.keys()] },
+        { icon: "⏳" }
+      );
+      const finished = await Promise.race([
+        running.then(() => true),
+        new Promise<boolean>((resolve) =>
+          setTimeout(() => resolve(false), timeout).unref()
+        ),
+      ]);
+      if (!finished) {
+        logger.warn("Scrapes still running; closing the browser");
+        await this.closeBrowser();
+        await running;
+      }
+    }
+
+    await this.closeBrowser();
+  }
+
+  private scheduleTick(): void {
+    if (this.stopping) return;
+
+    const soonest = Math.min(
+      ...this.suburbs.map(({ nextRun }) => nextRun.getTime())
+    );
+    const delay = Math.max(0, Math.min(soonest - Date.now(), MAX_TICK_DELAY));
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private tick(): void {
+    const now = new Date();
+
+    for (const scheduled of this.suburbs) {
+      if (scheduled.nextRun > now) continue;
+      scheduled.nextRun = nextCronRun(scheduled.schedule, now);
+
+      const { suburb } = scheduled.entry;
+      const key = entryKey(scheduled.entry);
+      if (
+        this.running.has(key) ||
+        this.queue.some((entry) => entryKey(entry) === key)
+      ) {
+        logger.warn(
+          `${suburb}: previous run still going, skipping this one`,
+          { suburb },
+          { icon: "⏭️" }
+        );
+        continue;
+      }
+      this.queue.push(scheduled.entry);
+    }
+
+    this.drain();
+    this.scheduleTick();
+  }
+
+  /** Start queued runs while there is room under the concurrency cap */
+  private drain(): void {
+    while (
+      !this.stopping &&
+      this.queue.length > 0 &&
+      this.running.size < this.options.concurrency
+    ) {
+      const entry = this.queue.shift() as ScheduleEntry;
+      const key = entryKey(entry);
+      const run = this.run(entry).finally(() => {
+        this.running.delete(key);
+        this.drain();
+      });
+      this.running.set(key, run);
+    }
+  }
+
+  private async run(entry: ScheduleEntry): Promise<void> {
+    const { suburb } = entry;
+
+    let unlock: (() => Promise<void>) | null;
+    try {
+      unlock = await tryLockSuburb(suburb, entry.mode);
+    } catch (error) {
+      logger.error(
+        `${suburb}: could not take the suburb lock: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { suburb },
+        { icon: "✗" }
+      );
+      return;
+    }
+    if (!unlock) {
+      logger.warn(
+        `${suburb}: being scraped by another process, skipping this run`,
+        { suburb },
+        { icon: "⏭️" }
+      );
+      return;
+    }
+
+    try {
+      for (let attempt = 0; attempt <= CRASH_RETRIES; attempt++) {
+        const browser = await this.getBrowser();
+        let result: ScraperResult | null = null;
+        try {
+          result = await this.options.scrape(entry, browser);
+        } catch (error) {
+          logger.error(
+            `${suburb}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            { suburb },
+            { icon: "✗" }
+          );
+        }
+
+        const crashed = !browser.connected && !this.stopping;
+        if (crashed && attempt < CRASH_RETRIES) {
+          logger.warn(
+            `${suburb}: browser crashed during the run; retrying with a new browser`,
+            { suburb }
+          );
+          continue;
+        }
+
+        if (result) {
+          logger.info(
+            `${suburb}: ${result.propertiesScraped} found, ${result.propertiesSaved} saved`,
+            {
+              suburb,
+              success: result.success,
+              propertiesFound: result.propertiesScraped,
+              propertiesSaved: result.propertiesSaved,
+            },
+            { icon: result.success ? "✓" : "✗" }
+          );
+        }
+        break;
+      }
+    } catch (error) {
+      logger.error(
+        `${suburb}: ${error instanceof Error ? error.message : String(error)}`,
+        { suburb },
+        { icon: "✗" }
+      );
+    } finally {
+      await unlock();
+    }
+  }
+
+  /**
+   * The shared browser, launched on first use and relaunched after a crash.
+   */
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.connected) {
+      return this.browser;
+    }
+
+    if (!this.launching) {
+      this.launching = launchBrowser(this.options.headless)
+        .then((browser) => {
+          browser.once("disconnected", () => {
+            if (this.browser === browser) {
+              this.browser = null;
+            }
+            if (!this.stopping) {
+              logger.warn(
+                "Browser disconnected; a new one is launched for the next run"
+              );
+            }
+          });
+          this.browser = browser;
+          return browser;
+        })
+        .finally(() => {
+          this.launching = null;
+        });
+    }
+    return this.launching;
+  }
+
+  private async closeBrowser(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (browser?.connected) {
+      await browser.close().catch(() => {});
+      logger.info("Browser closed", undefined, { icon: "✓" });
+    }
+  }
+}
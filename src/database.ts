@@ -1,66 +1,285 @@
 import { Pool } from "pg";
-import type { QueryResult } from "pg";
-import type { Property } from "./types";
+import type { PoolClient, QueryResult } from "pg";
+import { logger } from "./logger";
+import type {
+  AlertKind,
+  DuplicateCluster,
+  ListingType,
+  Property,
+  PropertyDetails,
+  PriceChange,
+  PropertyFilter,
+  PropertyQueryOptions,
+  PropertySnapshot,
+  PropertySortField,
+  RejectedProperty,
+  SavedSearch,
+  SaveCounts,
+  ScrapeRun,
+  ScrapeRunFilter,
+  ScraperResult,
+  StatsGroup,
+  Suburb,
+  SuburbCount,
+  SuburbStats,
+  UpsertResult,
+  YieldStats,
+} from "./types";
 
-const pool = new Pool({
-  user: process.env.DB_USER || "scraper",
-  password: process.env.DB_PASSWORD || "scraper_password",
-  host: process.env.DB_HOST || "localhost",
-  port: parseInt(process.env.DB_PORT ?? "5432", 10),
-  database: process.env.DB_NAME || "prop24",
-});
+// Days between first sighting and removal (or now, while still listed)
+const DAYS_ON_MARKET_SQL =
+  "EXTRACT(DAY FROM COALESCE(removed_at, CURRENT_TIMESTAMP) - first_seen_at)::INT";
 
-pool.on("error", (err: Error) => {
-  console.error("Unexpected error on idle client", err.message ?? err);
-});
+// pg returns DECIMAL columns as strings to avoid precision loss
+export const DECIMAL_COLUMNS = new Set<keyof Property>([
+  "floor_size_sqm",
+  "erf_size_sqm",
+  "total_price",
+  "price_per_sqm",
+  "rates_and_taxes",
+  "levies",
+  "monthly_rent",
+  "deposit",
+  "duplicate_confidence",
+]);
+
+/**
+ * Convert a row's DECIMAL strings to numbers so it matches `Property`.
+ */
+export function withNumericDecimals(property: Property): Property {
+  const converted: Record<string, unknown> = { ...property };
+  for (const column of DECIMAL_COLUMNS) {
+    const value = converted[column];
+    if (typeof value === "string") {
+      converted[column] = Number(value);
+    }
+  }
+  return converted as unknown as Property;
+}
+
+let pool: Pool | null = null;
+
+// pg's default; raised for the daemon, whose scrapes each hold a client for
+// their suburb lock while saving on another
+const DEFAULT_POOL_SIZE = 10;
+let poolSize = DEFAULT_POOL_SIZE;
+
+/**
+ * Make room in the connection pool for `concurrency` scrapes that each hold
+ * a suburb lock (see `tryLockSuburb`) and save on a second client. Call
+ * before the pool is first used.
+ */
+export function sizePoolForConcurrency(concurrency: number): void {
+  if (pool) {
+    throw new Error("The connection pool is already in use");
+  }
+  poolSize = Math.max(DEFAULT_POOL_SIZE, concurrency * 2);
+}
+
+/**
+ * The shared connection pool, created on first use so commands that run on
+ * another store never need Postgres.
+ */
+function getPool(): Pool {
+  if (!pool) {
+    pool = new Pool({
+      user: process.env.DB_USER || "scraper",
+      password: process.env.DB_PASSWORD || "scraper_password",
+      host: process.env.DB_HOST || "localhost",
+      port: parseInt(process.env.DB_PORT ?? "5432", 10),
+      database: process.env.DB_NAME || "prop24",
+      max: poolSize,
+    });
+
+    pool.on("error", (err: Error) => {
+      logger.error(`Unexpected error on idle client: ${err.message ?? err}`);
+    });
+  }
+  return pool;
+}
 
 export async function connectDB(): Promise<void> {
   try {
-    const client = await pool.connect();
-    console.log("✓ Connected to database");
+    const client = await getPool().connect();
+    logger.info("Connected to database", undefined, { icon: "✓" });
     client.release();
   } catch (error: unknown) {
-    console.error(
-      "✗ Failed to connect to database:",
-      error instanceof Error ? error.message : String(error)
+    logger.error(
+      `Failed to connect to database: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      undefined,
+      { icon: "✗" }
     );
     throw error;
   }
 }
 
 export async function closeDB(): Promise<void> {
-  await pool.end();
+  if (pool) {
+    const closing = pool;
+    pool = null;
+    await closing.end();
+  }
 }
 
-export async function insertProperty(
-  property: Property
-): Promise<Property | null> {
+/**
+ * Run `fn` inside a transaction on a dedicated client, committing when it
+ * resolves and rolling back when it throws.
+ */
+export async function withTransaction<T>(
+  fn: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await getPool().connect();
+  try {
+    await client.query("BEGIN");
+    const result = await fn(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error: unknown) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Listing data an upsert writes; a re-scraped listing that differs in none of
+// these (and wasn't marked removed) is unchanged
+export const LISTING_DATA_COLUMNS = [
+  "street_address",
+  "estate_complex",
+  "suburb",
+  "city",
+  "postal_code",
+  "floor_size_sqm",
+  "total_price",
+  "price_per_sqm",
+  "rates_and_taxes",
+  "levies",
+  "listing_type",
+  "monthly_rent",
+  "deposit",
+  "available_from",
+  "furnished",
+  "status",
+  "status_raw",
+  "property_type",
+  "property_type_raw",
+  "bedrooms",
+  "bathrooms",
+  "listing_date",
+];
+
+/**
+ * Insert or update scraped listings by URL in one transaction. Each listing
+ * gets its own savepoint, so one that fails is reported as `failed` without
+ * undoing the others. Listings whose data is unchanged only have their seen
+ * tracking refreshed; `updated_at` and the snapshot history are left alone.
+ */
+export async function upsertProperties(
+  properties: Property[],
+  runId?: number
+): Promise<UpsertResult[]> {
+  try {
+    return await withTransaction(async (client) => {
+      const results: UpsertResult[] = [];
+      for (const property of properties) {
+        await client.query("SAVEPOINT upsert_property;");
+        try {
+          results.push(await upsertProperty(client, property, runId));
+          await client.query("RELEASE SAVEPOINT upsert_property;");
+        } catch (error: unknown) {
+          await client.query("ROLLBACK TO SAVEPOINT upsert_property;");
+          results.push({
+            property_url: property.property_url,
+            outcome: "failed",
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      return results;
+    });
+  } catch (error: unknown) {
+    logger.error(
+      `Error upserting properties: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+async function upsertProperty(
+  client: PoolClient,
+  property: Property,
+  runId?: number
+): Promise<UpsertResult> {
   const query = `
-    INSERT INTO properties (
-      property_url, street_address, estate_complex, suburb, city, postal_code,
-      floor_size_sqm, total_price, price_per_sqm, rates_and_taxes, levies,
-      status, property_type, bedrooms, bathrooms, listing_date
-    ) VALUES (
-      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+    WITH previous AS (
+      SELECT * FROM properties WHERE property_url = $1
+    ), saved AS (
+      INSERT INTO properties (
+        property_url, street_address, estate_complex, suburb, city, postal_code,
+        floor_size_sqm, total_price, price_per_sqm, rates_and_taxes, levies,
+        status, property_type, bedrooms, bathrooms, listing_date, last_run_id,
+        status_raw, property_type_raw, listing_type, monthly_rent, deposit,
+        available_from, furnished
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17,
+        $18, $19, $20, $21, $22, $23, $24
+      )
+      ON CONFLICT (property_url) DO UPDATE SET
+        -- the detail page address is more reliable than the card's, keep it once enriched
+        street_address = CASE
+          WHEN properties.enriched_at IS NULL THEN EXCLUDED.street_address
+          ELSE properties.street_address
+        END,
+        estate_complex = EXCLUDED.estate_complex,
+        suburb = EXCLUDED.suburb,
+        city = EXCLUDED.city,
+        postal_code = COALESCE(EXCLUDED.postal_code, properties.postal_code),
+        -- keep the detail page floor size once enriched; a card without one keeps the stored value
+        floor_size_sqm = CASE
+          WHEN properties.enriched_at IS NULL
+            THEN COALESCE(EXCLUDED.floor_size_sqm, properties.floor_size_sqm)
+          ELSE COALESCE(properties.floor_size_sqm, EXCLUDED.floor_size_sqm)
+        END,
+        total_price = EXCLUDED.total_price,
+        price_per_sqm = EXCLUDED.price_per_sqm,
+        -- only set by enrichment; cards never carry these
+        rates_and_taxes = COALESCE(EXCLUDED.rates_and_taxes, properties.rates_and_taxes),
+        levies = COALESCE(EXCLUDED.levies, properties.levies),
+        listing_type = EXCLUDED.listing_type,
+        monthly_rent = EXCLUDED.monthly_rent,
+        -- deposits are usually only on the detail page
+        deposit = COALESCE(EXCLUDED.deposit, properties.deposit),
+        available_from = COALESCE(EXCLUDED.available_from, properties.available_from),
+        furnished = COALESCE(EXCLUDED.furnished, properties.furnished),
+        status = EXCLUDED.status,
+        status_raw = EXCLUDED.status_raw,
+        property_type = EXCLUDED.property_type,
+        property_type_raw = EXCLUDED.property_type_raw,
+        bedrooms = EXCLUDED.bedrooms,
+        bathrooms = EXCLUDED.bathrooms,
+        listing_date = COALESCE(EXCLUDED.listing_date, properties.listing_date),
+        last_run_id = COALESCE(EXCLUDED.last_run_id, properties.last_run_id),
+        -- seeing a listing again reactivates it if it had been marked removed
+        last_seen_at = CURRENT_TIMESTAMP,
+        removed_at = NULL
+      -- xmax is 0 only for freshly inserted rows, not for conflict updates
+      RETURNING *, (xmax = 0) AS inserted
     )
-    ON CONFLICT (property_url) DO UPDATE SET
-      street_address = EXCLUDED.street_address,
-      estate_complex = EXCLUDED.estate_complex,
-      suburb = EXCLUDED.suburb,
-      city = EXCLUDED.city,
-      postal_code = EXCLUDED.postal_code,
-      floor_size_sqm = EXCLUDED.floor_size_sqm,
-      total_price = EXCLUDED.total_price,
-      price_per_sqm = EXCLUDED.price_per_sqm,
-      rates_and_taxes = EXCLUDED.rates_and_taxes,
-      levies = EXCLUDED.levies,
-      status = EXCLUDED.status,
-      property_type = EXCLUDED.property_type,
-      bedrooms = EXCLUDED.bedrooms,
-      bathrooms = EXCLUDED.bathrooms,
-      listing_date = EXCLUDED.listing_date,
-      updated_at = CURRENT_TIMESTAMP
-    RETURNING *;
+    SELECT saved.*,
+      previous.removed_at IS NOT NULL
+        OR (${LISTING_DATA_COLUMNS.map((column) => `previous.${column}`).join(
+          ", "
+        )})
+        IS DISTINCT FROM (${LISTING_DATA_COLUMNS.map(
+          (column) => `saved.${column}`
+        ).join(", ")}) AS changed
+    FROM saved
+    LEFT JOIN previous ON previous.id = saved.id;
   `;
 
   const values = [
@@ -80,49 +299,1387 @@ export async function insertProperty(
     property.bedrooms,
     property.bathrooms,
     property.listing_date,
+    runId ?? null,
+    property.status_raw,
+    property.property_type_raw,
+    property.listing_type ?? "sale",
+    property.monthly_rent,
+    property.deposit,
+    property.available_from,
+    property.furnished,
+  ];
+
+  const result: QueryResult<
+    Property & { inserted: boolean; changed: boolean }
+  > = await client.query(query, values);
+  const row = result.rows[0];
+  if (!row) {
+    throw new Error("Upsert returned no row");
+  }
+
+  const { inserted, changed, ...saved } = row;
+  if (!inserted && !changed) {
+    return {
+      property_url: property.property_url,
+      outcome: "unchanged",
+      property: saved,
+    };
+  }
+
+  if (!inserted) {
+    const touched: QueryResult<{ updated_at: Date }> = await client.query(
+      "UPDATE properties SET updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING updated_at;",
+      [saved.id]
+    );
+    saved.updated_at = touched.rows[0]?.updated_at ?? new Date();
+  }
+  await recordSnapshotIfChanged(client, saved);
+  return {
+    property_url: property.property_url,
+    outcome: inserted ? "inserted" : "updated",
+    property: saved,
+  };
+}
+
+/**
+ * Append a row to `property_snapshots` when the tracked values of a property
+ * differ from its latest snapshot (or it has none yet).
+ */
+async function recordSnapshotIfChanged(
+  client: PoolClient,
+  property: Property
+): Promise<void> {
+  const query = `
+    INSERT INTO property_snapshots (
+      property_id, total_price, price_per_sqm, rates_and_taxes, levies, status,
+      monthly_rent
+    )
+    SELECT $1, $2::DECIMAL, $3::DECIMAL, $4::DECIMAL, $5::DECIMAL, $6::VARCHAR,
+      $7::DECIMAL
+    WHERE NOT EXISTS (
+      SELECT 1 FROM (
+        SELECT * FROM property_snapshots
+        WHERE property_id = $1
+        ORDER BY recorded_at DESC, id DESC
+        LIMIT 1
+      ) latest
+      WHERE latest.total_price IS NOT DISTINCT FROM $2::DECIMAL
+        AND latest.price_per_sqm IS NOT DISTINCT FROM $3::DECIMAL
+        AND latest.rates_and_taxes IS NOT DISTINCT FROM $4::DECIMAL
+        AND latest.levies IS NOT DISTINCT FROM $5::DECIMAL
+        AND latest.status IS NOT DISTINCT FROM $6::VARCHAR
+        AND latest.monthly_rent IS NOT DISTINCT FROM $7::DECIMAL
+    );
+  `;
+
+  await client.query(query, [
+    property.id,
+    property.total_price ?? null,
+    property.price_per_sqm ?? null,
+    property.rates_and_taxes ?? null,
+    property.levies ?? null,
+    property.status ?? null,
+    property.monthly_rent ?? null,
+  ]);
+}
+
+export async function updatePropertyDetails(
+  propertyUrl: string,
+  details: PropertyDetails
+): Promise<Property | null> {
+  const query = `
+    UPDATE properties SET
+      street_address = COALESCE($2, street_address),
+      postal_code = COALESCE($3, postal_code),
+      floor_size_sqm = COALESCE($4, floor_size_sqm),
+      erf_size_sqm = COALESCE($5, erf_size_sqm),
+      rates_and_taxes = COALESCE($6, rates_and_taxes),
+      levies = COALESCE($7, levies),
+      parking_spaces = COALESCE($8, parking_spaces),
+      pets_allowed = COALESCE($9, pets_allowed),
+      description = COALESCE($10, description),
+      listing_date = COALESCE($11, listing_date),
+      deposit = COALESCE($12, deposit),
+      available_from = COALESCE($13, available_from),
+      furnished = COALESCE($14, furnished),
+      enriched_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE property_url = $1
+    RETURNING *;
+  `;
+
+  const values = [
+    propertyUrl,
+    details.street_address ?? null,
+    details.postal_code ?? null,
+    details.floor_size_sqm ?? null,
+    details.erf_size_sqm ?? null,
+    details.rates_and_taxes ?? null,
+    details.levies ?? null,
+    details.parking_spaces ?? null,
+    details.pets_allowed ?? null,
+    details.description ?? null,
+    details.listing_date ?? null,
+    details.deposit ?? null,
+    details.available_from ?? null,
+    details.furnished ?? null,
   ];
 
   try {
-    const result: QueryResult<Property> = await pool.query(query, values);
+    return await withTransaction(async (client) => {
+      const result: QueryResult<Property> = await client.query(query, values);
+      const updated = result.rows[0] || null;
+      if (updated?.id !== undefined) {
+        await recordSnapshotIfChanged(client, updated);
+      }
+      return updated;
+    });
+  } catch (error: unknown) {
+    logger.error(
+      `Error updating property details: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Properties in a suburb that have never been enriched, or were last enriched
+ * more than `maxAgeDays` days ago.
+ */
+export async function getPropertiesToEnrich(
+  suburb: string,
+  maxAgeDays: number
+): Promise<Property[]> {
+  const query = `
+    SELECT * FROM properties
+    WHERE suburb = $1
+      AND (enriched_at IS NULL OR enriched_at < NOW() - make_interval(days => $2))
+    ORDER BY enriched_at ASC NULLS FIRST, id ASC;
+  `;
+
+  try {
+    const result: QueryResult<Property> = await getPool().query(query, [
+      suburb,
+      maxAgeDays,
+    ]);
+    return result.rows;
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching properties to enrich: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+export async function getPropertyByUrl(
+  propertyUrl: string
+): Promise<Property | null> {
+  const query = `
+    SELECT *, ${DAYS_ON_MARKET_SQL} AS days_on_market
+    FROM properties
+    WHERE property_url = $1;
+  `;
+
+  try {
+    const result: QueryResult<Property> = await getPool().query(query, [
+      propertyUrl,
+    ]);
     return result.rows[0] || null;
   } catch (error: unknown) {
-    console.error(
-      "Error inserting property:",
-      error instanceof Error ? error.message : String(error)
+    logger.error(
+      `Error fetching property: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+export async function getPropertyById(id: number): Promise<Property | null> {
+  const query = `
+    SELECT *, ${DAYS_ON_MARKET_SQL} AS days_on_market
+    FROM properties
+    WHERE id = $1;
+  `;
+
+  try {
+    const result: QueryResult<Property> = await getPool().query(query, [id]);
+    return result.rows[0] || null;
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching property: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+export async function getSuburbCounts(): Promise<SuburbCount[]> {
+  const query = `
+    SELECT
+      suburb,
+      COUNT(*)::INT AS count,
+      (COUNT(*) FILTER (WHERE removed_at IS NULL))::INT AS active_count
+    FROM properties
+    GROUP BY suburb
+    ORDER BY suburb ASC;
+  `;
+
+  try {
+    const result: QueryResult<SuburbCount> = await getPool().query(query);
+    return result.rows;
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching suburb counts: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+export async function getPropertyHistory(
+  propertyId: number
+): Promise<PropertySnapshot[]> {
+  const query =
+    "SELECT * FROM property_snapshots WHERE property_id = $1 ORDER BY recorded_at ASC, id ASC;";
+
+  try {
+    const result: QueryResult<PropertySnapshot> = await getPool().query(query, [
+      propertyId,
+    ]);
+    return result.rows;
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching property history: ${
+        error instanceof Error ? error.message : String(error)
+      }`
     );
     throw error;
   }
 }
 
 export async function getPropertiesBySuburb(
-  suburb: string
+  suburb: string,
+  options: { includeRemoved?: boolean } = {}
 ): Promise<Property[]> {
-  const query =
-    "SELECT * FROM properties WHERE suburb = $1 ORDER BY listing_date DESC;";
+  return queryProperties(
+    {
+      suburbs: [suburb],
+      ...(options.includeRemoved !== undefined && {
+        includeRemoved: options.includeRemoved,
+      }),
+    },
+    { sort: { field: "listing_date", direction: "desc" } }
+  );
+}
+
+// Sortable fields mapped to SQL; sort input never reaches the query directly
+export const SORT_COLUMNS: Record<PropertySortField, string> = {
+  price: "total_price",
+  price_per_sqm: "price_per_sqm",
+  floor_size: "floor_size_sqm",
+  bedrooms: "bedrooms",
+  listing_date: "listing_date",
+  first_seen: "first_seen_at",
+  days_on_market: "days_on_market",
+};
+
+export const PROPERTY_SORT_FIELDS = Object.keys(
+  SORT_COLUMNS
+) as PropertySortField[];
+
+export async function queryProperties(
+  filter: PropertyFilter,
+  options: PropertyQueryOptions = {}
+): Promise<Property[]> {
+  const { where, values } = buildPropertyFilter(filter);
+  const sort = options.sort ?? { field: "listing_date", direction: "desc" };
+  const direction = sort.direction === "asc" ? "ASC" : "DESC";
+
+  let pagination = "";
+  if (options.limit !== undefined) {
+    values.push(options.limit);
+    pagination += ` LIMIT $${values.length}`;
+  }
+  if (options.offset !== undefined) {
+    values.push(options.offset);
+    pagination += ` OFFSET $${values.length}`;
+  }
+
+  const query = `
+    SELECT * FROM (
+      SELECT *, ${DAYS_ON_MARKET_SQL} AS days_on_market
+      FROM (${selectListings(where, filter.collapseDuplicates)}) properties
+    ) properties
+    ORDER BY ${SORT_COLUMNS[sort.field]} ${direction} NULLS LAST, id ASC
+    ${pagination};
+  `;
 
   try {
-    const result: QueryResult<Property> = await pool.query(query, [suburb]);
+    const result: QueryResult<Property> = await getPool().query(query, values);
     return result.rows;
   } catch (error: unknown) {
-    console.error(
-      "Error fetching properties:",
-      error instanceof Error ? error.message : String(error)
+    logger.error(
+      `Error fetching properties: ${
+        error instanceof Error ? error.message : String(error)
+      }`
     );
     throw error;
   }
 }
 
+export async function countProperties(filter: PropertyFilter): Promise<number> {
+  const { where, values } = buildPropertyFilter(filter);
+  const query = `
+    SELECT COUNT(*) AS count
+    FROM (${selectListings(where, filter.collapseDuplicates)}) properties;
+  `;
+
+  try {
+    const result: QueryResult<{ count: string }> = await getPool().query(
+      query,
+      values
+    );
+    return parseInt(result.rows[0]?.count ?? "0", 10);
+  } catch (error: unknown) {
+    logger.error(
+      `Error counting properties: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Select the listings matching `where`; with `collapseDuplicates`, only one
+ * per duplicate cluster, preferring the canonical listing.
+ */
+function selectListings(where: string, collapseDuplicates = false): string {
+  if (!collapseDuplicates) {
+    return `SELECT * FROM properties ${where}`;
+  }
+  return `
+    SELECT DISTINCT ON (COALESCE(canonical_property_id, id)) *
+    FROM properties
+    ${where}
+    ORDER BY COALESCE(canonical_property_id, id),
+      id <> COALESCE(canonical_property_id, id), id
+  `;
+}
+
+/**
+ * Turn a filter into a parameterised WHERE clause. Placeholders start at
+ * `$1`; callers append their own parameters after `values`.
+ */
+function buildPropertyFilter(filter: PropertyFilter): {
+  where: string;
+  values: unknown[];
+} {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (filter.suburbs && filter.suburbs.length > 0) {
+    conditions.push(
+      filter.suburbCaseInsensitive
+        ? `LOWER(suburb) = ANY(${param(
+            filter.suburbs.map((suburb) => suburb.toLowerCase())
+          )})`
+        : `suburb = ANY(${param(filter.suburbs)})`
+    );
+  }
+  if (filter.listingTypes && filter.listingTypes.length > 0) {
+    conditions.push(`listing_type = ANY(${param(filter.listingTypes)})`);
+  }
+  if (filter.statuses && filter.statuses.length > 0) {
+    conditions.push(`status = ANY(${param(filter.statuses)})`);
+  }
+  if (filter.propertyTypes && filter.propertyTypes.length > 0) {
+    conditions.push(`property_type = ANY(${param(filter.propertyTypes)})`);
+  }
+  if (filter.minPrice !== undefined) {
+    conditions.push(`total_price >= ${param(filter.minPrice)}`);
+  }
+  if (filter.maxPrice !== undefined) {
+    conditions.push(`total_price <= ${param(filter.maxPrice)}`);
+  }
+  if (filter.minBedrooms !== undefined) {
+    conditions.push(`bedrooms >= ${param(filter.minBedrooms)}`);
+  }
+  if (filter.minFloorSize !== undefined) {
+    conditions.push(`floor_size_sqm >= ${param(filter.minFloorSize)}`);
+  }
+  if (filter.maxPricePerSqm !== undefined) {
+    conditions.push(`price_per_sqm <= ${param(filter.maxPricePerSqm)}`);
+  }
+  if (filter.lastRunId !== undefined) {
+    conditions.push(`last_run_id = ${param(filter.lastRunId)}`);
+  }
+  if (!filter.includeRemoved) {
+    conditions.push("removed_at IS NULL");
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    values,
+  };
+}
+
+/**
+ * Yield matching properties in id order, fetching `batchSize` rows at a time
+ * so large result sets never have to fit in memory.
+ */
+export async function* streamProperties(
+  filter: PropertyFilter,
+  batchSize: number = 500
+): AsyncGenerator<Property> {
+  const { where, values } = buildPropertyFilter(filter);
+  const idParam = `$${values.length + 1}`;
+  const limitParam = `$${values.length + 2}`;
+  const query = `
+    SELECT *, ${DAYS_ON_MARKET_SQL} AS days_on_market
+    FROM properties
+    ${where ? `${where} AND` : "WHERE"} id > ${idParam}
+    ORDER BY id ASC
+    LIMIT ${limitParam};
+  `;
+
+  let lastId = 0;
+  while (true) {
+    let rows: Property[];
+    try {
+      const result: QueryResult<Property> = await getPool().query(query, [
+        ...values,
+        lastId,
+        batchSize,
+      ]);
+      rows = result.rows;
+    } catch (error: unknown) {
+      logger.error(
+        `Error streaming properties: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      throw error;
+    }
+
+    yield* rows;
+
+    const lastRow = rows[rows.length - 1];
+    if (rows.length < batchSize || lastRow?.id === undefined) break;
+    lastId = lastRow.id;
+  }
+}
+
 export async function getPropertyCount(): Promise<number> {
   const query = "SELECT COUNT(*) as count FROM properties;";
 
   try {
-    const result: QueryResult<{ count: string }> = await pool.query(query);
+    const result: QueryResult<{ count: string }> = await getPool().query(query);
     const countStr = result.rows[0]?.count ?? "0";
     return parseInt(countStr, 10);
   } catch (error) {
-    console.error(
-      "Error getting property count:",
-      error instanceof Error ? error.message : String(error)
+    logger.error(
+      `Error getting property count: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+// Columns stats can be grouped by; never built from user input
+const STATS_GROUP_COLUMNS = {
+  overall: "NULL",
+  propertyType: "property_type",
+  bedrooms: "bedrooms::TEXT",
+} as const;
+
+async function getStatsGroups(
+  suburb: string,
+  groupBy: keyof typeof STATS_GROUP_COLUMNS,
+  collapseDuplicates: boolean
+): Promise<StatsGroup[]> {
+  const groupColumn = STATS_GROUP_COLUMNS[groupBy];
+  // Aggregates are cast to FLOAT8 so pg returns numbers rather than strings
+  const query = `
+    SELECT
+      ${groupColumn} AS "group",
+      COUNT(*)::INT AS count,
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY total_price)::FLOAT8 AS median_price,
+      AVG(total_price)::FLOAT8 AS mean_price,
+      MIN(total_price)::FLOAT8 AS min_price,
+      MAX(total_price)::FLOAT8 AS max_price,
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY price_per_sqm)::FLOAT8 AS median_price_per_sqm,
+      AVG(price_per_sqm)::FLOAT8 AS mean_price_per_sqm,
+      MIN(price_per_sqm)::FLOAT8 AS min_price_per_sqm,
+      MAX(price_per_sqm)::FLOAT8 AS max_price_per_sqm,
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY floor_size_sqm)::FLOAT8 AS median_floor_size_sqm
+    FROM (${selectListings(
+      "WHERE suburb = $1 AND listing_type = 'sale'",
+      collapseDuplicates
+    )}) properties
+    GROUP BY 1
+    ORDER BY ${groupBy === "bedrooms" ? "MIN(bedrooms)" : "1"} NULLS LAST;
+  `;
+
+  const result: QueryResult<StatsGroup> = await getPool().query(query, [
+    suburb,
+  ]);
+  return result.rows;
+}
+
+/**
+ * Price, price per m² and size figures for a suburb's sale listings, overall
+ * and by type, bedrooms and status. With `collapseDuplicates` each duplicate
+ * cluster counts once.
+ */
+export async function getSuburbStats(
+  suburb: string,
+  options: { collapseDuplicates?: boolean } = {}
+): Promise<SuburbStats> {
+  const collapseDuplicates = options.collapseDuplicates ?? false;
+  const statusQuery = `
+    SELECT
+      status,
+      COUNT(*)::INT AS count,
+      (COUNT(*)::FLOAT8 / SUM(COUNT(*)) OVER ()) AS share
+    FROM (${selectListings(
+      "WHERE suburb = $1 AND listing_type = 'sale'",
+      collapseDuplicates
+    )}) properties
+    GROUP BY status
+    ORDER BY count DESC;
+  `;
+
+  try {
+    const [overall, byPropertyType, byBedrooms, statusResult] =
+      await Promise.all([
+        getStatsGroups(suburb, "overall", collapseDuplicates),
+        getStatsGroups(suburb, "propertyType", collapseDuplicates),
+        getStatsGroups(suburb, "bedrooms", collapseDuplicates),
+        getPool().query(statusQuery, [suburb]) as Promise<
+          QueryResult<SuburbStats["byStatus"][number]>
+        >,
+      ]);
+
+    return {
+      suburb,
+      overall: overall[0] ?? emptyStatsGroup(),
+      byPropertyType,
+      byBedrooms,
+      byStatus: statusResult.rows,
+    };
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching suburb stats: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Median sale price and median monthly rent of active listings per suburb and
+ * property type, plus an all-types row per suburb, with the gross yield
+ * (12 × median rent / median price). Suburbs match case-insensitively.
+ */
+export async function getYieldStats(suburbs: string[]): Promise<YieldStats[]> {
+  // Aggregates are cast to FLOAT8 so pg returns numbers rather than strings
+  const query = `
+    SELECT *,
+      CASE WHEN median_price > 0 AND median_rent IS NOT NULL
+        THEN median_rent * 12 / median_price * 100
+      END AS gross_yield
+    FROM (
+      SELECT
+        MIN(suburb) AS suburb,
+        -- NULL in the all-types rows; untyped listings group as 'unknown'
+        COALESCE(property_type, 'unknown') AS property_type,
+        COUNT(*) FILTER (WHERE listing_type = 'sale')::INT AS sale_count,
+        (PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY total_price)
+          FILTER (WHERE listing_type = 'sale'))::FLOAT8 AS median_price,
+        COUNT(*) FILTER (WHERE listing_type = 'rent')::INT AS rent_count,
+        (PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY monthly_rent)
+          FILTER (WHERE listing_type = 'rent'))::FLOAT8 AS median_rent
+      FROM properties
+      WHERE LOWER(suburb) = ANY($1) AND removed_at IS NULL
+      GROUP BY GROUPING SETS (
+        (LOWER(suburb), COALESCE(property_type, 'unknown')),
+        (LOWER(suburb))
+      )
+    ) yields
+    ORDER BY LOWER(suburb), property_type NULLS FIRST;
+  `;
+
+  try {
+    const result: QueryResult<YieldStats> = await getPool().query(query, [
+      suburbs.map((suburb) => suburb.toLowerCase()),
+    ]);
+    return result.rows;
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching yield stats: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+function emptyStatsGroup(): StatsGroup {
+  return {
+    group: null,
+    count: 0,
+    median_price: null,
+    mean_price: null,
+    min_price: null,
+    max_price: null,
+    median_price_per_sqm: null,
+    mean_price_per_sqm: null,
+    min_price_per_sqm: null,
+    max_price_per_sqm: null,
+    median_floor_size_sqm: null,
+  };
+}
+
+/**
+ * Store the fields `normaliseProperty` derives. Used by `renormalise` after
+ * the normalisation rules change.
+ */
+export async function updateNormalisedFields(
+  propertyId: number,
+  fields: Pick<Property, "property_type" | "status" | "price_per_sqm">
+): Promise<void> {
+  const query = `
+    UPDATE properties SET
+      property_type = $2,
+      status = $3,
+      price_per_sqm = $4,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+    RETURNING *;
+  `;
+
+  try {
+    await withTransaction(async (client) => {
+      const result: QueryResult<Property> = await client.query(query, [
+        propertyId,
+        fields.property_type ?? null,
+        fields.status ?? null,
+        fields.price_per_sqm ?? null,
+      ]);
+      const updated = result.rows[0];
+      if (updated?.id !== undefined) {
+        await recordSnapshotIfChanged(client, updated);
+      }
+    });
+  } catch (error: unknown) {
+    logger.error(
+      `Error updating normalised fields: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Quarantine a scraped record that failed validation, keeping the parsed
+ * values and the card HTML it came from so the parser can be fixed later.
+ */
+export async function insertRejectedProperty(
+  rejected: RejectedProperty
+): Promise<void> {
+  const query = `
+    INSERT INTO rejected_properties (
+      run_id, suburb, property_url, reasons, messages, parsed, raw_html
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7);
+  `;
+
+  try {
+    await getPool().query(query, [
+      rejected.run_id ?? null,
+      rejected.suburb,
+      rejected.property_url ?? null,
+      rejected.reasons,
+      rejected.messages,
+      JSON.stringify(rejected.parsed),
+      rejected.raw_html ?? null,
+    ]);
+  } catch (error: unknown) {
+    logger.error(
+      `Error inserting rejected property: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Mark listings in a suburb that the given run did not save as removed.
+ * A listing belongs to the suburb (any case) and listing type of the run
+ * that last saw it, not to the suburb parsed from its address, which can
+ * name a neighbouring suburb or the city. `seenUrls` are listings the run
+ * saw but did not save (e.g. rejected by validation); they are still on the
+ * site so they are left alone.
+ */
+export async function markUnseenPropertiesRemoved(
+  suburb: string,
+  runId: number,
+  seenUrls: string[] = [],
+  listingType: ListingType = "sale"
+): Promise<number> {
+  const query = `
+    UPDATE properties SET
+      removed_at = CURRENT_TIMESTAMP,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE last_run_id IN (
+        SELECT id FROM scrape_runs
+        WHERE LOWER(suburb) = LOWER($1) AND listing_type = $4
+      )
+      AND last_run_id <> $2
+      AND removed_at IS NULL
+      AND property_url <> ALL($3::VARCHAR[]);
+  `;
+
+  try {
+    const result = await getPool().query(query, [
+      suburb.trim(),
+      runId,
+      seenUrls,
+      listingType,
+    ]);
+    return result.rowCount ?? 0;
+  } catch (error: unknown) {
+    logger.error(
+      `Error marking removed properties: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+export async function createScrapeRun(
+  suburb: string,
+  listingType: ListingType = "sale"
+): Promise<number> {
+  const query = `
+    INSERT INTO scrape_runs (suburb, listing_type)
+    VALUES ($1, $2)
+    RETURNING id;
+  `;
+
+  try {
+    const result: QueryResult<{ id: number }> = await getPool().query(query, [
+      suburb,
+      listingType,
+    ]);
+    const id = result.rows[0]?.id;
+    if (id === undefined) {
+      throw new Error("Scrape run was not created");
+    }
+    return id;
+  } catch (error: unknown) {
+    logger.error(
+      `Error creating scrape run: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+export async function finishScrapeRun(
+  runId: number,
+  result: ScraperResult,
+  counts: SaveCounts & { removed?: number }
+): Promise<void> {
+  const query = `
+    UPDATE scrape_runs SET
+      resolved_url = $2,
+      finished_at = CURRENT_TIMESTAMP,
+      success = $3,
+      pages_visited = $4,
+      properties_found = $5,
+      properties_inserted = $6,
+      properties_updated = $7,
+      properties_failed = $8,
+      properties_unchanged = $14,
+      errors = $9,
+      artifact_dir = COALESCE($10, artifact_dir),
+      properties_removed = $11,
+      properties_rejected = $12,
+      rejection_counts = $13
+    WHERE id = $1;
+  `;
+
+  try {
+    await getPool().query(query, [
+      runId,
+      result.resolvedUrl ?? null,
+      result.success,
+      result.pagesVisited ?? 0,
+      result.propertiesScraped,
+      counts.inserted,
+      counts.updated,
+      counts.failed,
+      result.errors,
+      result.artifactDir ?? null,
+      counts.removed ?? 0,
+      counts.rejected,
+      JSON.stringify(counts.rejectionCounts),
+      counts.unchanged,
+    ]);
+  } catch (error: unknown) {
+    logger.error(
+      `Error finishing scrape run: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+export async function getScrapeRuns(
+  filter: ScrapeRunFilter
+): Promise<ScrapeRun[]> {
+  const query = `
+    SELECT * FROM scrape_runs
+    WHERE ($1::VARCHAR IS NULL OR suburb = $1)
+      AND (NOT $2 OR success IS NOT TRUE)
+    ORDER BY started_at DESC
+    LIMIT $3;
+  `;
+
+  try {
+    const result: QueryResult<ScrapeRun> = await getPool().query(query, [
+      filter.suburb ?? null,
+      filter.failedOnly ?? false,
+      filter.limit ?? 20,
+    ]);
+    return result.rows;
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching scrape runs: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+// First key of the two-key advisory locks taken per suburb, so they don't
+// collide with locks taken for other purposes
+const SUBURB_LOCK_NAMESPACE = 24;
+
+/**
+ * Take a session-level advisory lock on a suburb (any case) and listing type
+ * so only one process scrapes it at a time. Returns a function that releases
+ * the lock, or null when another session holds it. The lock lives on a
+ * dedicated pool client for the whole run, and is released by Postgres if
+ * this process dies; callers running several at once size the pool with
+ * `sizePoolForConcurrency`.
+ */
+export async function tryLockSuburb(
+  suburb: string,
+  listingType: ListingType = "sale"
+): Promise<(() => Promise<void>) | null> {
+  const client = await getPool().connect();
+  const key = `${listingType}:${suburb.trim().toLowerCase()}`;
+
+  try {
+    const result = await client.query(
+      "SELECT pg_try_advisory_lock($1, hashtext($2)) AS locked;",
+      [SUBURB_LOCK_NAMESPACE, key]
+    );
+    if (!result.rows[0]?.locked) {
+      client.release();
+      return null;
+    }
+  } catch (error: unknown) {
+    client.release();
+    logger.error(
+      `Error locking suburb: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+
+  return async () => {
+    try {
+      await client.query("SELECT pg_advisory_unlock($1, hashtext($2));", [
+        SUBURB_LOCK_NAMESPACE,
+        key,
+      ]);
+      client.release();
+    } catch (error: unknown) {
+      // Dropping the connection releases the lock too
+      client.release(error instanceof Error ? error : true);
+      logger.error(
+        `Error unlocking suburb: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  };
+}
+
+/**
+ * Convert a `saved_searches` row's DECIMAL strings and NULLs to a
+ * `SavedSearch`.
+ */
+function toSavedSearch(row: Record<string, unknown>): SavedSearch {
+  const optionalNumber = (value: unknown) =>
+    value === null || value === undefined ? undefined : Number(value);
+  const minPrice = optionalNumber(row["min_price"]);
+  const maxPrice = optionalNumber(row["max_price"]);
+  const minBedrooms = optionalNumber(row["min_bedrooms"]);
+
+  return {
+    id: row["id"] as number,
+    name: row["name"] as string,
+    suburb: row["suburb"] as string,
+    ...(minPrice !== undefined && { min_price: minPrice }),
+    ...(maxPrice !== undefined && { max_price: maxPrice }),
+    property_types: (row["property_types"] ??
+      []) as SavedSearch["property_types"],
+    ...(minBedrooms !== undefined && { min_bedrooms: minBedrooms }),
+    price_drop_percent: Number(row["price_drop_percent"]),
+    sinks: (row["sinks"] ?? []) as string[],
+    created_at: row["created_at"] as Date,
+  };
+}
+
+export async function createSavedSearch(
+  search: SavedSearch
+): Promise<SavedSearch> {
+  const query = `
+    INSERT INTO saved_searches (
+      name, suburb, min_price, max_price, property_types, min_bedrooms,
+      price_drop_percent, sinks
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING *;
+  `;
+
+  try {
+    const result = await getPool().query(query, [
+      search.name,
+      search.suburb,
+      search.min_price ?? null,
+      search.max_price ?? null,
+      search.property_types,
+      search.min_bedrooms ?? null,
+      search.price_drop_percent,
+      search.sinks,
+    ]);
+    return toSavedSearch(result.rows[0]);
+  } catch (error: unknown) {
+    logger.error(
+      `Error creating saved search: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Saved searches, optionally only those watching `suburb` (any case).
+ */
+export async function getSavedSearches(
+  suburb?: string
+): Promise<SavedSearch[]> {
+  const query = `
+    SELECT * FROM saved_searches
+    WHERE ($1::VARCHAR IS NULL OR LOWER(suburb) = LOWER($1))
+    ORDER BY name ASC;
+  `;
+
+  try {
+    const result = await getPool().query(query, [suburb ?? null]);
+    return result.rows.map(toSavedSearch);
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching saved searches: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Delete a saved search and its alert history. Returns false when there was
+ * no search with that name.
+ */
+export async function deleteSavedSearch(name: string): Promise<boolean> {
+  const query = "DELETE FROM saved_searches WHERE name = $1;";
+
+  try {
+    const result = await getPool().query(query, [name]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error: unknown) {
+    logger.error(
+      `Error deleting saved search: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Record an alert as sent. Returns false when it already was, in which case
+ * it must not be sent again. `snapshotId` is the snapshot holding a dropped
+ * price; new-listing alerts use 0.
+ */
+export async function claimAlert(
+  savedSearchId: number,
+  propertyId: number,
+  kind: AlertKind,
+  snapshotId: number = 0
+): Promise<boolean> {
+  const query = `
+    INSERT INTO sent_alerts (saved_search_id, property_id, kind, snapshot_id)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (saved_search_id, property_id, kind, snapshot_id) DO NOTHING
+    RETURNING id;
+  `;
+
+  try {
+    const result = await getPool().query(query, [
+      savedSearchId,
+      propertyId,
+      kind,
+      snapshotId,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  } catch (error: unknown) {
+    logger.error(
+      `Error recording alert: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Forget a claimed alert whose delivery failed so the next scrape retries it.
+ */
+export async function releaseAlert(
+  savedSearchId: number,
+  propertyId: number,
+  kind: AlertKind,
+  snapshotId: number = 0
+): Promise<void> {
+  const query = `
+    DELETE FROM sent_alerts
+    WHERE saved_search_id = $1 AND property_id = $2
+      AND kind = $3 AND snapshot_id = $4;
+  `;
+
+  try {
+    await getPool().query(query, [savedSearchId, propertyId, kind, snapshotId]);
+  } catch (error: unknown) {
+    logger.error(
+      `Error releasing alert: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * The latest recorded price of each property alongside the price it had in
+ * the snapshot before, for properties with at least two priced snapshots.
+ */
+export async function getLatestPriceChanges(
+  propertyIds: number[]
+): Promise<PriceChange[]> {
+  const query = `
+    SELECT * FROM (
+      SELECT DISTINCT ON (s.property_id)
+        s.property_id,
+        s.id AS snapshot_id,
+        s.total_price,
+        LAG(s.total_price) OVER (
+          PARTITION BY s.property_id ORDER BY s.recorded_at, s.id
+        ) AS previous_price
+      FROM property_snapshots s
+      WHERE s.property_id = ANY($1) AND s.total_price IS NOT NULL
+      ORDER BY s.property_id, s.recorded_at DESC, s.id DESC
+    ) latest
+    WHERE previous_price IS NOT NULL;
+  `;
+
+  try {
+    const result = await getPool().query(query, [propertyIds]);
+    return result.rows.map((row) => ({
+      property_id: row.property_id,
+      snapshot_id: row.snapshot_id,
+      total_price: Number(row.total_price),
+      previous_price: Number(row.previous_price),
+    }));
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching price changes: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+function toSuburb(row: Record<string, unknown>): Suburb {
+  return {
+    id: row["id"] as number,
+    name: row["name"] as string,
+    ...(row["city"] !== null && { city: row["city"] as string }),
+    ...(row["province"] !== null && { province: row["province"] as string }),
+    ...(row["location_id"] !== null && {
+      location_id: row["location_id"] as number,
+    }),
+    listing_url: row["listing_url"] as string,
+    resolved_at: row["resolved_at"] as Date,
+    created_at: row["created_at"] as Date,
+  };
+}
+
+/**
+ * A registered suburb by name (any case), or null when it hasn't been
+ * resolved yet.
+ */
+export async function getSuburb(name: string): Promise<Suburb | null> {
+  const query = "SELECT * FROM suburbs WHERE LOWER(name) = LOWER($1);";
+
+  try {
+    const result = await getPool().query(query, [name.trim()]);
+    return result.rows[0] ? toSuburb(result.rows[0]) : null;
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching suburb: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+export async function getSuburbs(): Promise<Suburb[]> {
+  const query = "SELECT * FROM suburbs ORDER BY LOWER(name) ASC;";
+
+  try {
+    const result = await getPool().query(query);
+    return result.rows.map(toSuburb);
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching suburbs: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Register a suburb, or replace the location a name resolves to.
+ */
+export async function upsertSuburb(suburb: Suburb): Promise<Suburb> {
+  const query = `
+    INSERT INTO suburbs (name, city, province, location_id, listing_url)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (LOWER(name)) DO UPDATE SET
+      name = EXCLUDED.name,
+      city = EXCLUDED.city,
+      province = EXCLUDED.province,
+      location_id = EXCLUDED.location_id,
+      listing_url = EXCLUDED.listing_url,
+      resolved_at = CURRENT_TIMESTAMP
+    RETURNING *;
+  `;
+
+  try {
+    const result = await getPool().query(query, [
+      suburb.name.trim(),
+      suburb.city ?? null,
+      suburb.province ?? null,
+      suburb.location_id ?? null,
+      suburb.listing_url,
+    ]);
+    return toSuburb(result.rows[0]);
+  } catch (error: unknown) {
+    logger.error(
+      `Error saving suburb: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * The listings duplicate detection looks at in a suburb (any case): those
+ * still listed, plus removed ones that are in a cluster, so the cluster keeps
+ * them and its canonical listing, and any a person split out.
+ */
+export async function getDuplicateCandidates(
+  suburb: string
+): Promise<Property[]> {
+  const query = `
+    SELECT * FROM properties
+    WHERE LOWER(suburb) = LOWER($1)
+      AND (
+        removed_at IS NULL
+        OR duplicate_confirmed
+        OR canonical_property_id IS NOT NULL
+      )
+    ORDER BY id ASC;
+  `;
+
+  try {
+    const result: QueryResult<Property> = await getPool().query(query, [
+      suburb.trim(),
+    ]);
+    return result.rows.map(withNumericDecimals);
+  } catch (error: unknown) {
+    logger.error(
+      `Error fetching duplicate candidates: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Replace the detected duplicate clusters of the listings detection looked
+ * at (`candidateIds`); other listings are left alone. Listings a person
+ * confirmed or split out keep what they have.
+ */
+export async function saveDuplicateClusters(
+  candidateIds: number[],
+  clusters: DuplicateCluster[]
+): Promise<void> {
+  const resetQuery = `
+    UPDATE properties SET
+      canonical_property_id = NULL,
+      duplicate_confidence = NULL
+    WHERE id = ANY($1)
+      AND canonical_property_id IS NOT NULL
+      AND NOT duplicate_confirmed;
+  `;
+  const clusterQuery = `
+    UPDATE properties SET
+      canonical_property_id = $1,
+      duplicate_confidence = $2
+    WHERE id = ANY($3) AND NOT duplicate_confirmed;
+  `;
+
+  try {
+    await withTransaction(async (client) => {
+      await client.query(resetQuery, [candidateIds]);
+      for (const cluster of clusters) {
+        await client.query(clusterQuery, [
+          cluster.canonical_property_id,
+          cluster.confidence,
+          cluster.members.map((member) => member.id),
+        ]);
+      }
+    });
+  } catch (error: unknown) {
+    logger.error(
+      `Error saving duplicate clusters: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Confirm the duplicate cluster a listing belongs to, so detection never
+ * changes its members. Returns the number of listings confirmed, 0 when the
+ * listing isn't in a cluster.
+ */
+export async function confirmDuplicateCluster(
+  propertyId: number
+): Promise<number> {
+  const query = `
+    UPDATE properties SET duplicate_confirmed = TRUE
+    WHERE canonical_property_id = (
+      SELECT canonical_property_id FROM properties WHERE id = $1
+    );
+  `;
+
+  try {
+    const result = await getPool().query(query, [propertyId]);
+    return result.rowCount ?? 0;
+  } catch (error: unknown) {
+    logger.error(
+      `Error confirming duplicate cluster: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Take a listing out of its duplicate cluster for good: detection won't
+ * cluster it again. Splitting the canonical listing breaks up the rest of
+ * the cluster for the next detection to regroup, as does leaving a single
+ * listing behind. Returns false when the listing isn't in a cluster.
+ */
+export async function splitDuplicate(propertyId: number): Promise<boolean> {
+  const releaseQuery = `
+    UPDATE properties SET
+      canonical_property_id = NULL,
+      duplicate_confidence = NULL,
+      duplicate_confirmed = (id = $2)
+    WHERE id = $2 OR canonical_property_id = $2
+      OR (
+        canonical_property_id = $1
+        AND (SELECT COUNT(*) FROM properties WHERE canonical_property_id = $1) <= 2
+      );
+  `;
+
+  try {
+    return await withTransaction(async (client) => {
+      const result: QueryResult<{ canonical_property_id: number | null }> =
+        await client.query(
+          "SELECT canonical_property_id FROM properties WHERE id = $1 FOR UPDATE;",
+          [propertyId]
+        );
+      const canonicalId = result.rows[0]?.canonical_property_id ?? null;
+      if (canonicalId === null) {
+        return false;
+      }
+
+      await client.query(releaseQuery, [canonicalId, propertyId]);
+      return true;
+    });
+  } catch (error: unknown) {
+    logger.error(
+      `Error splitting duplicate: ${
+        error instanceof Error ? error.message : String(error)
+      }`
     );
     throw error;
   }
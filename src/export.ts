@@ -0,0 +1,200 @@
+import { once } from "events";
+import fs from "fs";
+import { DECIMAL_COLUMNS } from "./database";
+import type { Property } from "./types";
+
+export const EXPORT_FORMATS = ["csv", "json", "ndjson", "xlsx-csv"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Columns in table order; `--columns` picks a subset of these
+export const EXPORT_COLUMNS: (keyof Property)[] = [
+  "id",
+  "property_url",
+  "listing_type",
+  "street_address",
+  "estate_complex",
+  "suburb",
+  "city",
+  "postal_code",
+  "floor_size_sqm",
+  "erf_size_sqm",
+  "total_price",
+  "price_per_sqm",
+  "rates_and_taxes",
+  "levies",
+  "monthly_rent",
+  "deposit",
+  "available_from",
+  "furnished",
+  "status",
+  "property_type",
+  "bedrooms",
+  "bathrooms",
+  "parking_spaces",
+  "pets_allowed",
+  "description",
+  "listing_date",
+  "scrape_date",
+  "enriched_at",
+  "last_run_id",
+  "first_seen_at",
+  "last_seen_at",
+  "removed_at",
+  "canonical_property_id",
+  "days_on_market",
+  "created_at",
+  "updated_at",
+];
+
+// DATE columns are parsed by pg as local midnight, so they're written back
+// as a calendar date rather than an ISO timestamp that could shift a day
+const DATE_ONLY_COLUMNS = new Set<keyof Property>([
+  "listing_date",
+  "available_from",
+]);
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: (keyof Property)[];
+  output: string;
+}
+
+/**
+ * Write properties to `options.output` one row at a time, waiting for the
+ * file stream to drain so memory use stays flat. Returns the rows written;
+ * rejects when the file can't be opened or written.
+ */
+export async function exportProperties(
+  rows: AsyncIterable<Property>,
+  options: ExportOptions
+): Promise<number> {
+  const stream = fs.createWriteStream(options.output, { encoding: "utf8" });
+  // Kept for the next write, so an error between writes isn't left unhandled
+  let streamError: Error | undefined;
+  stream.on("error", (error) => {
+    streamError = error;
+  });
+  // `once` rejects when the stream emits "error" instead
+  const write = async (chunk: string): Promise<void> => {
+    if (streamError) throw streamError;
+    if (!stream.write(chunk)) {
+      await once(stream, "drain");
+    }
+  };
+
+  const { format, columns } = options;
+  const excel = format === "xlsx-csv";
+  const newline = excel ? "\r\n" : "\n";
+  let count = 0;
+
+  try {
+    await once(stream, "open");
+
+    if (format === "csv" || excel) {
+      // A BOM makes Excel open the file as UTF-8 (for "m²" and accents)
+      if (excel) await write("\uFEFF");
+      await write(
+        columns.map((column) => toCsvCell(column, excel)).join(",") + newline
+      );
+    } else if (format === "json") {
+      await write("[");
+    }
+
+    for await (const row of rows) {
+      const record = toExportRecord(row, columns);
+
+      if (format === "json") {
+        await write(`${count > 0 ? "," : ""}\n  ${JSON.stringify(record)}`);
+      } else if (format === "ndjson") {
+        await write(`${JSON.stringify(record)}\n`);
+      } else {
+        const cells = columns.map((column) =>
+          toCsvCell(formatCsvValue(record[column], excel), excel)
+        );
+        await write(cells.join(",") + newline);
+      }
+      count++;
+    }
+
+    if (format === "json") {
+      await write(count > 0 ? "\n]\n" : "]\n");
+    }
+  } finally {
+    if (streamError) {
+      stream.destroy();
+    } else {
+      await new Promise<void>((resolve, reject) => {
+        stream.end((error?: Error | null) =>
+          error ? reject(error) : resolve()
+        );
+      });
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Pick the requested columns and normalise pg values: DECIMAL strings become
+ * numbers, DATE values become `YYYY-MM-DD` and timestamps ISO strings.
+ */
+function toExportRecord(
+  row: Property,
+  columns: (keyof Property)[]
+): Record<string, string | number | boolean | null> {
+  const record: Record<string, string | number | boolean | null> = {};
+
+  for (const column of columns) {
+    const value: unknown = row[column];
+
+    if (value === null || value === undefined) {
+      record[column] = null;
+    } else if (value instanceof Date) {
+      record[column] = DATE_ONLY_COLUMNS.has(column)
+        ? formatLocalDate(value)
+        : value.toISOString();
+    } else if (DECIMAL_COLUMNS.has(column)) {
+      record[column] = Number(value);
+    } else if (
+      typeof value === "number" ||
+      typeof value === "boolean" ||
+      typeof value === "string"
+    ) {
+      record[column] = value;
+    } else {
+      record[column] = String(value);
+    }
+  }
+
+  return record;
+}
+
+function formatCsvValue(
+  value: string | number | boolean | null | undefined,
+  excel: boolean
+): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string" && excel) {
+    // Excel parses "2024-10-10T08:00:00.000Z" as text; a space-separated
+    // timestamp is recognised as a date/time
+    const isoMatch = value.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})/);
+    if (isoMatch) return `${isoMatch[1]} ${isoMatch[2]}`;
+  }
+  return String(value);
+}
+
+function toCsvCell(value: string, excel: boolean): string {
+  let cell = value;
+  // Stop spreadsheet apps from evaluating scraped text as a formula
+  if (excel && /^[=+\-@]/.test(cell) && isNaN(Number(cell))) {
+    cell = `'${cell}`;
+  }
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
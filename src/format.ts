@@ -0,0 +1,56 @@
+// pg returns DECIMAL columns as strings, so amounts are coerced before use
+export function formatAmount(value: number | string | null | undefined): string {
+  if (value === null || value === undefined) return "N/A";
+  return `R${Number(value).toLocaleString()}`;
+}
+
+export function formatDelta(
+  current: number | string | null | undefined,
+  previous: number | string | null | undefined
+): string {
+  if (
+    current === null ||
+    current === undefined ||
+    previous === null ||
+    previous === undefined
+  ) {
+    return "";
+  }
+
+  const delta = Number(current) - Number(previous);
+  if (delta === 0) return "";
+
+  const sign = delta > 0 ? "+" : "-";
+  const percent =
+    Number(previous) !== 0
+      ? ` (${sign}${Math.abs((delta / Number(previous)) * 100).toFixed(1)}%)`
+      : "";
+  return ` ${sign}R${Math.abs(delta).toLocaleString()}${percent}`;
+}
+
+/**
+ * Render rows as a plain-text table with padded columns. Numeric-looking
+ * cells are right-aligned.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => (row[column] ?? "").length))
+  );
+
+  const renderRow = (cells: string[]) =>
+    cells
+      .map((cell, column) => {
+        const width = widths[column] ?? cell.length;
+        return /^[R\d.,%\s+-]+$/.test(cell) && cell.trim() !== ""
+          ? cell.padStart(width)
+          : cell.padEnd(width);
+      })
+      .join("  ")
+      .trimEnd();
+
+  return [
+    renderRow(headers),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...rows.map(renderRow),
+  ].join("\n");
+}
@@ -1,13 +1,232 @@
+import fs from "fs";
+import readline from "readline/promises";
+import type { Browser } from "puppeteer";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 import {
   connectDB,
   closeDB,
-  insertProperty,
-  getPropertiesBySuburb,
+  PROPERTY_SORT_FIELDS,
+  getSuburbStats,
+  getYieldStats,
+  streamProperties,
+  updateNormalisedFields,
+  withNumericDecimals,
+  createSavedSearch,
+  getSavedSearches,
+  deleteSavedSearch,
+  getSuburb,
+  getSuburbs,
+  upsertSuburb,
+  confirmDuplicateCluster,
+  splitDuplicate,
+  sizePoolForConcurrency,
 } from "./database";
-import { Property24Scraper } from "./scraper";
-import type { Property } from "./types";
+import { parseSink, recordExistingMatches, sendAlerts } from "./alerts";
+import {
+  ARTIFACT_FORMATS,
+  ARTIFACT_MODES,
+  cleanupArtifacts,
+  DEFAULT_ARTIFACTS_DIR,
+  parseDuration,
+} from "./artifacts";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportProperties,
+} from "./export";
+import type { ExportFormat } from "./export";
+import { mapWithConcurrency } from "./concurrency";
+import {
+  DEFAULT_DAEMON_CONCURRENCY,
+  loadScheduleConfig,
+  ScrapeDaemon,
+} from "./daemon";
+import { formatAmount, formatDelta, formatTable } from "./format";
+import { LOG_FORMATS, logger } from "./logger";
+import { DEFAULT_MIN_CONFIDENCE, updateDuplicateClusters } from "./matching";
+import {
+  assertSchemaUpToDate,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+} from "./migrations";
+import { LISTING_TYPES, normaliseProperty, PROPERTY_TYPES } from "./normalise";
+import { checkSelectors, parseListingHtmlDir } from "./parser";
+import {
+  AmbiguousSuburbError,
+  launchBrowser,
+  Property24Scraper,
+} from "./scraper";
+import type { SuburbSearchResult } from "./scraper";
+import { loadSelectorProfile } from "./selectors";
+import { createApiServer } from "./server";
+import { createRepository, STORE_KINDS } from "./store";
+import type { PropertyRepository, StoreKind } from "./store";
+import { parseListingLocation, rememberListingUrl } from "./suburbs";
+import { validateProperty } from "./validation";
+import type {
+  DuplicateCluster,
+  ListingType,
+  Property,
+  PropertySnapshot,
+  SaveCounts,
+  SavedSearch,
+  ScrapeRun,
+  ScrapeRunFilter,
+  ScrapedProperty,
+  ScraperOptions,
+  PropertyFilter,
+  PropertyQueryOptions,
+  PropertySortField,
+  ScraperResult,
+  StatsGroup,
+  Suburb,
+  SuburbStats,
+  UpsertResult,
+} from "./types";
+
+interface EnrichOptions {
+  concurrency: number;
+  maxAgeDays: number;
+}
+
+const ENRICH_OPTIONS = {
+  concurrency: {
+    alias: "c",
+    describe: "Number of detail pages to load at once",
+    type: "number",
+    default: 3,
+  },
+  "max-age-days": {
+    describe: "Skip properties enriched within this many days",
+    type: "number",
+    default: 7,
+  },
+} as const;
+
+const PAGINATION_OPTIONS = {
+  "start-page": {
+    describe: "First result page to scrape",
+    type: "number",
+    default: 1,
+  },
+  "max-pages": {
+    describe: "Maximum number of result pages to scrape",
+    type: "number",
+  },
+  "page-size": {
+    describe: "Results per page, used to derive the page count",
+    type: "number",
+    default: 20,
+  },
+} as const;
+
+const RETRY_OPTIONS = {
+  retries: {
+    describe: "Times to retry a failed page load",
+    type: "number",
+    default: 3,
+  },
+  "retry-delay": {
+    describe: "Milliseconds before the first retry; doubles on each retry",
+    type: "number",
+    default: 2000,
+  },
+  "max-retry-delay": {
+    describe: "Longest wait between retries in milliseconds",
+    type: "number",
+    default: 30000,
+  },
+  "page-delay": {
+    describe: "Minimum milliseconds between page loads",
+    type: "number",
+    default: 1000,
+  },
+  "selector-timeout": {
+    describe: "Milliseconds to wait for listing content after a page loads",
+    type: "number",
+    default: 10000,
+  },
+} as const;
+
+const ARTIFACT_OPTIONS = {
+  artifacts: {
+    describe: "When to save screenshots/page HTML",
+    choices: ARTIFACT_MODES,
+    default: "on-error",
+  },
+  "artifact-format": {
+    describe: "What to save for each artifact",
+    choices: ARTIFACT_FORMATS,
+    default: "both",
+  },
+  "artifacts-dir": {
+    describe: "Folder for per-run artifact folders",
+    type: "string",
+    default: DEFAULT_ARTIFACTS_DIR,
+  },
+} as const;
+
+const MODE_OPTION = {
+  mode: {
+    describe: "Scrape for-sale or to-rent listings",
+    choices: LISTING_TYPES,
+    default: "sale",
+  },
+} as const;
+
+const SELECTORS_OPTION = {
+  selectors: {
+    describe: "Selector profile JSON file (defaults to selectors/default.json)",
+    type: "string",
+  },
+} as const;
+
+type CliScraperOptions = Omit<ScraperOptions, "suburb">;
+
+type ScrapeCounts = SaveCounts & { removed: number; alerts: number };
+
+/**
+ * Scraper options shared by the scrape commands, taken from parsed args.
+ */
+function scraperOptionsFromArgs(args: any): CliScraperOptions {
+  return {
+    headless: args.headless,
+    timeout: args.timeout,
+    ...(args.mode !== undefined && { mode: args.mode }),
+    retries: args.retries,
+    retryDelay: args.retryDelay,
+    maxRetryDelay: args.maxRetryDelay,
+    pageDelay: args.pageDelay,
+    selectorTimeout: args.selectorTimeout,
+    artifacts: args.artifacts,
+    artifactFormat: args.artifactFormat,
+    artifactsDir: args.artifactsDir,
+    ...(args.startPage !== undefined && { startPage: args.startPage }),
+    ...(args.pageSize !== undefined && { pageSize: args.pageSize }),
+    ...(args.maxPages !== undefined && { maxPages: args.maxPages }),
+    ...(args.selectors && { selectors: loadSelectorProfile(args.selectors) }),
+  };
+}
+
+// Storage for the scrape-and-list commands, chosen with --store
+let store: PropertyRepository = createRepository();
+
+/**
+ * Fail early when a command that only works on Postgres is run against
+ * another store. Only the scrape-and-list flow is behind
+ * `PropertyRepository`; `stats`, `yields`, `serve`, `renormalise`, `watch`,
+ * `suburbs`, `duplicates`, `list --dedupe`, `daemon` and `migrate` query
+ * Postgres directly.
+ */
+function requirePostgres(command: string): void {
+  if (store.kind !== "postgres") {
+    throw new Error(
+      `"${command}" needs the Postgres store; it can't run with --store ${store.kind}`
+    );
+  }
+}
 
 async function main(): Promise<void> {
   await yargs(hideBin(process.argv))
@@ -30,85 +249,1962 @@ async function main(): Promise<void> {
             describe: "Page load timeout in milliseconds",
             type: "number",
             default: 30000,
+          })
+          .option("from-html", {
+            describe:
+              "Parse saved listing pages in this directory instead of launching a browser",
+            type: "string",
+          })
+          .option("details", {
+            describe: "Enrich scraped properties from their detail pages",
+            type: "boolean",
+            default: false,
+          })
+          .options(ENRICH_OPTIONS)
+          .options(MODE_OPTION)
+          .options(PAGINATION_OPTIONS)
+          .options(RETRY_OPTIONS)
+          .options(ARTIFACT_OPTIONS)
+          .options(SELECTORS_OPTION);
+      },
+      async (args: any) => {
+        await scrapeSuburb(
+          args.suburb,
+          {
+            ...scraperOptionsFromArgs(args),
+            fromHtml: args.fromHtml,
+          },
+          args.details
+            ? { concurrency: args.concurrency, maxAgeDays: args.maxAgeDays }
+            : undefined
+        );
+      }
+    )
+    .command(
+      "scrape-batch",
+      "Scrape property listings for every suburb listed in a file",
+      (yargs_: any) => {
+        return yargs_
+          .option("file", {
+            alias: "f",
+            describe: "File with one suburb name per line",
+            type: "string",
+            demandOption: true,
+          })
+          .option("concurrency", {
+            alias: "c",
+            describe: "Number of suburbs to scrape at once",
+            type: "number",
+            default: 2,
+          })
+          .option("headless", {
+            describe: "Run browser in headless mode",
+            type: "boolean",
+            default: true,
+          })
+          .option("timeout", {
+            alias: "t",
+            describe: "Page load timeout in milliseconds",
+            type: "number",
+            default: 30000,
+          })
+          .options(MODE_OPTION)
+          .options(PAGINATION_OPTIONS)
+          .options(RETRY_OPTIONS)
+          .options(ARTIFACT_OPTIONS)
+          .options(SELECTORS_OPTION);
+      },
+      async (args: any) => {
+        await scrapeBatch(args.file, {
+          ...scraperOptionsFromArgs(args),
+          concurrency: args.concurrency,
+        });
+      }
+    )
+    .command(
+      "daemon <config>",
+      "Scrape suburbs on cron schedules until stopped",
+      (yargs_: any) => {
+        return yargs_
+          .positional("config", {
+            describe: "Schedule file (JSON) listing suburbs and cron times",
+            type: "string",
+          })
+          .option("concurrency", {
+            alias: "c",
+            describe: `Scrapes to run at once (overrides the schedule file; default ${DEFAULT_DAEMON_CONCURRENCY})`,
+            type: "number",
+          })
+          .option("mode", {
+            describe:
+              "Listings for schedule entries without their own mode (default sale)",
+            choices: LISTING_TYPES,
+          })
+          .option("shutdown-timeout", {
+            describe:
+              "Milliseconds to wait for running scrapes on SIGTERM before closing the browser",
+            type: "number",
+            default: 60000,
+          })
+          .option("headless", {
+            describe: "Run browser in headless mode",
+            type: "boolean",
+            default: true,
+          })
+          .option("timeout", {
+            alias: "t",
+            describe: "Page load timeout in milliseconds",
+            type: "number",
+            default: 30000,
+          })
+          .options(RETRY_OPTIONS)
+          .options(ARTIFACT_OPTIONS)
+          .options(SELECTORS_OPTION);
+      },
+      async (args: any) => {
+        await runDaemon(args.config, {
+          ...scraperOptionsFromArgs(args),
+          shutdownTimeout: args.shutdownTimeout,
+          ...numericOptions(args, { concurrency: "concurrency" }),
+        });
+      }
+    )
+    .command(
+      "enrich <suburb>",
+      "Fill in detail-page fields for stored properties in a suburb",
+      (yargs_: any) => {
+        return yargs_
+          .positional("suburb", {
+            describe: "Suburb name",
+            type: "string",
+          })
+          .option("headless", {
+            describe: "Run browser in headless mode",
+            type: "boolean",
+            default: true,
+          })
+          .option("timeout", {
+            alias: "t",
+            describe: "Page load timeout in milliseconds",
+            type: "number",
+            default: 30000,
+          })
+          .options(ENRICH_OPTIONS)
+          .options(RETRY_OPTIONS)
+          .options(ARTIFACT_OPTIONS)
+          .options(SELECTORS_OPTION);
+      },
+      async (args: any) => {
+        await enrichSuburb(args.suburb, scraperOptionsFromArgs(args), {
+          concurrency: args.concurrency,
+          maxAgeDays: args.maxAgeDays,
+        });
+      }
+    )
+    .command(
+      "renormalise [suburbs..]",
+      "Re-run property type, status and price per m² normalisation over stored properties",
+      (yargs_: any) => {
+        return yargs_
+          .positional("suburbs", {
+            describe: "Only these suburbs (default: all)",
+            type: "string",
+            array: true,
+          })
+          .option("dry-run", {
+            describe: "Report changes without saving them",
+            type: "boolean",
+            default: false,
+          });
+      },
+      async (args: any) => {
+        await renormaliseProperties(args.suburbs ?? [], {
+          dryRun: args.dryRun,
+        });
+      }
+    )
+    .command(
+      "list <suburbs..>",
+      "List properties for one or more suburbs from database",
+      (yargs_: any) => {
+        return yargs_
+          .positional("suburbs", {
+            describe: "Suburb names (matched case-insensitively)",
+            type: "string",
+          })
+          .option("exact", {
+            describe: "Match suburb names case-sensitively",
+            type: "boolean",
+            default: false,
+          })
+          .option("mode", {
+            describe: "Only include for-sale or to-rent listings",
+            choices: LISTING_TYPES,
+          })
+          .option("min-price", {
+            describe: "Minimum total price",
+            type: "number",
+          })
+          .option("max-price", {
+            describe: "Maximum total price",
+            type: "number",
+          })
+          .option("min-beds", {
+            describe: "Minimum number of bedrooms",
+            type: "number",
+          })
+          .option("type", {
+            describe: "Only include these property types",
+            type: "array",
+            choices: PROPERTY_TYPES,
+          })
+          .option("status", {
+            describe: "Only include these statuses",
+            type: "array",
+            choices: ["sold", "under_offer", "no_offer"],
+          })
+          .option("min-size", {
+            describe: "Minimum floor size in m²",
+            type: "number",
+          })
+          .option("max-price-per-sqm", {
+            describe: "Maximum price per m²",
+            type: "number",
+          })
+          .option("sort", {
+            describe: `Sort field, optionally with :asc or :desc (${PROPERTY_SORT_FIELDS.join(
+              ", "
+            )})`,
+            type: "string",
+            default: "listing_date:desc",
+          })
+          .option("limit", {
+            alias: "n",
+            describe: "Maximum number of properties to show",
+            type: "number",
+          })
+          .option("offset", {
+            describe: "Number of properties to skip",
+            type: "number",
+            default: 0,
+          })
+          .option("include-removed", {
+            describe: "Include listings no longer on Property24",
+            type: "boolean",
+            default: false,
+          })
+          .option("dedupe", {
+            describe:
+              "Show one listing per duplicate cluster (see the duplicates command)",
+            type: "boolean",
+            default: false,
+          });
+      },
+      async (args: any) => {
+        await listProperties(args.suburbs, {
+          filter: {
+            suburbCaseInsensitive: !args.exact,
+            includeRemoved: args.includeRemoved,
+            collapseDuplicates: args.dedupe,
+            ...(args.mode && { listingTypes: [args.mode] }),
+            ...(args.type && { propertyTypes: args.type }),
+            ...(args.status && { statuses: args.status }),
+            ...numericOptions(args, {
+              minPrice: "minPrice",
+              maxPrice: "maxPrice",
+              minBedrooms: "minBeds",
+              minFloorSize: "minSize",
+              maxPricePerSqm: "maxPricePerSqm",
+            }),
+          },
+          query: {
+            sort: args.sort,
+            ...numericOptions(args, { limit: "limit", offset: "offset" }),
+          },
+        });
+      }
+    )
+    .command(
+      "export <suburbs..>",
+      "Export stored properties for one or more suburbs to a file",
+      (yargs_: any) => {
+        return yargs_
+          .positional("suburbs", {
+            describe: "Suburb names",
+            type: "string",
+          })
+          .option("output", {
+            alias: "o",
+            describe: "File to write",
+            type: "string",
+            demandOption: true,
+          })
+          .option("format", {
+            alias: "f",
+            describe: "Output format (xlsx-csv is CSV tuned for Excel)",
+            choices: EXPORT_FORMATS,
+            default: "csv",
+          })
+          .option("columns", {
+            describe: "Comma-separated columns to include",
+            type: "string",
+          })
+          .option("mode", {
+            describe: "Only include for-sale or to-rent listings",
+            choices: LISTING_TYPES,
+          })
+          .option("status", {
+            describe: "Only include these statuses",
+            type: "array",
+            choices: ["sold", "under_offer", "no_offer"],
+          })
+          .option("type", {
+            describe: "Only include these property types",
+            type: "array",
+            choices: PROPERTY_TYPES,
+          })
+          .option("min-price", {
+            describe: "Minimum total price",
+            type: "number",
+          })
+          .option("max-price", {
+            describe: "Maximum total price",
+            type: "number",
+          })
+          .option("include-removed", {
+            describe: "Include listings no longer on Property24",
+            type: "boolean",
+            default: false,
+          });
+      },
+      async (args: any) => {
+        await exportListings(
+          {
+            suburbs: args.suburbs,
+            includeRemoved: args.includeRemoved,
+            ...(args.mode && { listingTypes: [args.mode] }),
+            ...(args.status && { statuses: args.status }),
+            ...(args.type && { propertyTypes: args.type }),
+            ...(args.minPrice !== undefined && { minPrice: args.minPrice }),
+            ...(args.maxPrice !== undefined && { maxPrice: args.maxPrice }),
+          },
+          {
+            format: args.format,
+            output: args.output,
+            ...(args.columns && { columns: args.columns }),
+          }
+        );
+      }
+    )
+    .command(
+      "stats <suburb>",
+      "Show a market summary for a suburb",
+      (yargs_: any) => {
+        return yargs_
+          .positional("suburb", {
+            describe: "Suburb name",
+            type: "string",
+          })
+          .option("json", {
+            describe: "Print the summary as JSON",
+            type: "boolean",
+            default: false,
+          })
+          .option("dedupe", {
+            describe: "Count each duplicate cluster once",
+            type: "boolean",
+            default: false,
+          });
+      },
+      async (args: any) => {
+        await showSuburbStats(args.suburb, {
+          json: args.json,
+          collapseDuplicates: args.dedupe,
+        });
+      }
+    )
+    .command(
+      "yields <suburbs..>",
+      "Compare median rent with median sale price per suburb and type",
+      (yargs_: any) => {
+        return yargs_
+          .positional("suburbs", {
+            describe: "Suburb names (matched case-insensitively)",
+            type: "string",
+          })
+          .option("json", {
+            describe: "Print the comparison as JSON",
+            type: "boolean",
+            default: false,
+          });
+      },
+      async (args: any) => {
+        await showYields(args.suburbs, { json: args.json });
+      }
+    )
+    .command(
+      "duplicates <suburb>",
+      "Detect listings of the same property and review, confirm or split the clusters",
+      (yargs_: any) => {
+        return yargs_
+          .positional("suburb", {
+            describe: "Suburb name (matched case-insensitively)",
+            type: "string",
+          })
+          .option("confirm", {
+            describe: "Confirm the clusters these listing ids belong to",
+            type: "array",
+            default: [],
+          })
+          .option("split", {
+            describe: "Take these listing ids out of their clusters",
+            type: "array",
+            default: [],
+          })
+          .option("min-confidence", {
+            describe: "Lowest match score (0-1) that clusters two listings",
+            type: "number",
+            default: DEFAULT_MIN_CONFIDENCE,
           });
       },
       async (args: any) => {
-        await scrapeSuburb(args.suburb, {
-          headless: args.headless,
-          timeout: args.timeout,
+        await reviewDuplicates(args.suburb, {
+          confirm: args.confirm.map(Number),
+          split: args.split.map(Number),
+          minConfidence: args.minConfidence,
         });
       }
     )
     .command(
-      "list <suburb>",
-      "List properties for a given suburb from database",
+      "history <property_url>",
+      "Show the price and status history of a property",
       (yargs_: any) => {
-        return yargs_.positional("suburb", {
-          describe: "Suburb name",
+        return yargs_.positional("property_url", {
+          describe: "Property listing URL",
           type: "string",
         });
       },
       async (args: any) => {
-        await listProperties(args.suburb);
+        await showPropertyHistory(args.property_url);
       }
     )
-    .help()
-    .alias("h", "help")
-    .version()
-    .alias("v", "version")
-    .demandCommand(1, "Please provide a command")
-    .parseAsync();
+    .command(
+      "runs",
+      "List past scrape runs",
+      (yargs_: any) => {
+        return yargs_
+          .option("suburb", {
+            alias: "s",
+            describe: "Only show runs for this suburb",
+            type: "string",
+          })
+          .option("failed", {
+            describe: "Only show failed or unfinished runs",
+            type: "boolean",
+            default: false,
+          })
+          .option("limit", {
+            alias: "n",
+            describe: "Maximum number of runs to show",
+            type: "number",
+            default: 20,
+          });
+      },
+      async (args: any) => {
+        await listRuns({
+          suburb: args.suburb,
+          failedOnly: args.failed,
+          limit: args.limit,
+        });
+      }
+    )
+    .command(
+      "serve",
+      "Start a local read-only JSON API over the database",
+      (yargs_: any) => {
+        return yargs_
+          .option("port", {
+            alias: "p",
+            describe: "Port to listen on",
+            type: "number",
+            default: 3024,
+          })
+          .option("host", {
+            describe: "Address to bind to",
+            type: "string",
+            default: "127.0.0.1",
+          });
+      },
+      async (args: any) => {
+        await serveApi({ port: args.port, host: args.host });
+      }
+    )
+    .command(
+      "cleanup",
+      "Delete artifact folders older than a given age",
+      (yargs_: any) => {
+        return yargs_
+          .option("older-than", {
+            describe: "Age of folders to delete, e.g. 14d, 12h or 2w",
+            type: "string",
+            demandOption: true,
+          })
+          .option("artifacts-dir", {
+            describe: "Folder holding per-run artifact folders",
+            type: "string",
+            default: DEFAULT_ARTIFACTS_DIR,
+          })
+          .option("dry-run", {
+            describe: "List folders that would be deleted without deleting",
+            type: "boolean",
+            default: false,
+          });
+      },
+      async (args: any) => {
+        await cleanupArtifactFolders(args.artifactsDir, {
+          olderThan: args.olderThan,
+          dryRun: args.dryRun,
+        });
+      }
+    )
+    .command("selectors", "Work with selector profiles", (yargs_: any) => {
+      return yargs_
+        .command(
+          "check <html-file>",
+          "Report which selectors match a saved page and what they extract",
+          (checkYargs: any) => {
+            return checkYargs
+              .positional("html-file", {
+                describe: "Saved Property24 page",
+                type: "string",
+              })
+              .option("page", {
+                describe: "Kind of page saved in the file",
+                choices: ["listing", "detail"],
+                default: "listing",
+              })
+              .options(SELECTORS_OPTION);
+          },
+          async (args: any) => {
+            await runSelectorCheck(args.htmlFile, {
+              page: args.page,
+              selectors: args.selectors,
+            });
+          }
+        )
+        .demandCommand(1, "Please provide a selectors command");
+    })
+    .command(
+      "watch",
+      "Manage saved searches that send alerts after each scrape",
+      (yargs_: any) => {
+        return yargs_
+          .command(
+            "add <name>",
+            "Save a search; new matches and price drops are alerted",
+            (watchYargs: any) => {
+              return watchYargs
+                .positional("name", {
+                  describe: "Name for the saved search",
+                  type: "string",
+                })
+                .option("suburb", {
+                  describe: "Suburb to watch (matched case-insensitively)",
+                  type: "string",
+                  demandOption: true,
+                })
+                .option("min-price", {
+                  describe: "Minimum total price",
+                  type: "number",
+                })
+                .option("max-price", {
+                  describe: "Maximum total price",
+                  type: "number",
+                })
+                .option("min-beds", {
+                  describe: "Minimum number of bedrooms",
+                  type: "number",
+                })
+                .option("type", {
+                  describe: "Only match these property types",
+                  type: "array",
+                  choices: PROPERTY_TYPES,
+                })
+                .option("price-drop", {
+                  describe: "Smallest price drop to alert on, in percent",
+                  type: "number",
+                  default: 5,
+                })
+                .option("notify", {
+                  describe:
+                    "Where to send alerts: stdout, file:<path> or a webhook URL",
+                  type: "array",
+                  string: true,
+                  default: ["stdout"],
+                })
+                .option("include-existing", {
+                  describe:
+                    "Alert on listings that already match after the next scrape",
+                  type: "boolean",
+                  default: false,
+                });
+            },
+            async (args: any) => {
+              await addSavedSearch(
+                {
+                  name: args.name,
+                  suburb: args.suburb,
+                  property_types: args.type ?? [],
+                  sinks: args.notify,
+                  ...numericOptions(args, {
+                    min_price: "minPrice",
+                    max_price: "maxPrice",
+                    min_bedrooms: "minBeds",
+                    price_drop_percent: "priceDrop",
+                  }),
+                },
+                { includeExisting: args.includeExisting }
+              );
+            }
+          )
+          .command(
+            "list",
+            "Show saved searches",
+            () => {},
+            async () => {
+              await listSavedSearches();
+            }
+          )
+          .command(
+            "remove <name>",
+            "Delete a saved search and its alert history",
+            (watchYargs: any) => {
+              return watchYargs.positional("name", {
+                describe: "Name of the saved search",
+                type: "string",
+              });
+            },
+            async (args: any) => {
+              await removeSavedSearch(args.name);
+            }
+          )
+          .demandCommand(1, "Please provide a watch command");
+      }
+    )
+    .command(
+      "suburbs",
+      "Manage the registry of resolved suburb listing URLs",
+      (yargs_: any) => {
+        return yargs_
+          .command(
+            "resolve <name>",
+            "Search Property24 for a suburb and register its listing URL",
+            (suburbsYargs: any) => {
+              return suburbsYargs
+                .positional("name", {
+                  describe: "Suburb name, as scrapes are run with",
+                  type: "string",
+                })
+                .option("pick", {
+                  describe:
+                    "Suggestion to take when several match, by number or text (e.g. Johannesburg)",
+                  type: "string",
+                })
+                .option("headless", {
+                  describe: "Run browser in headless mode",
+                  type: "boolean",
+                  default: true,
+                })
+                .option("timeout", {
+                  alias: "t",
+                  describe: "Page load timeout in milliseconds",
+                  type: "number",
+                  default: 30000,
+                })
+                .options(SELECTORS_OPTION);
+            },
+            async (args: any) => {
+              await resolveSuburb(args.name, {
+                headless: args.headless,
+                timeout: args.timeout,
+                ...(args.pick !== undefined && { pick: String(args.pick) }),
+                ...(args.selectors && {
+                  selectors: loadSelectorProfile(args.selectors),
+                }),
+              });
+            }
+          )
+          .command(
+            "list",
+            "Show registered suburbs",
+            () => {},
+            async () => {
+              await listSuburbs();
+            }
+          )
+          .demandCommand(1, "Please provide a suburbs command");
+      }
+    )
+    .command(
+      "migrate",
+      "Manage the database schema",
+      (yargs_: any) => {
+        return yargs_
+          .command(
+            "up",
+            "Apply pending migrations",
+            (migrateYargs: any) => {
+              return migrateYargs.option("to", {
+                describe: "Only apply migrations up to this version",
+                type: "string",
+              });
+            },
+            async (args: any) => {
+              await runMigrations("up", { to: args.to });
+            }
+          )
+          .command(
+            "down",
+            "Roll back applied migrations",
+            (migrateYargs: any) => {
+              return migrateYargs.option("steps", {
+                describe: "Number of migrations to roll back",
+                type: "number",
+                default: 1,
+              });
+            },
+            async (args: any) => {
+              await runMigrations("down", { steps: args.steps });
+            }
+          )
+          .command(
+            "status",
+            "Show applied and pending migrations",
+            () => {},
+            async () => {
+              await runMigrations("status");
+            }
+          )
+          .demandCommand(1, "Please provide a migrate command");
+      }
+    )
+    .option("log-format", {
+      describe: "Progress output format for scrape commands",
+      choices: LOG_FORMATS,
+      default: "human",
+      global: true,
+    })
+    .option("quiet", {
+      alias: "q",
+      describe: "Only show warnings, errors and the final summary",
+      type: "boolean",
+      global: true,
+    })
+    .option("verbose", {
+      describe: "Also show debug detail (e.g. saved artifacts)",
+      type: "boolean",
+      global: true,
+    })
+    .option("store", {
+      describe:
+        "Where scrape, enrich, list, export, history and runs keep their data",
+      choices: STORE_KINDS,
+      default: process.env.STORE || "postgres",
+      global: true,
+    })
+    .option("store-path", {
+      describe:
+        "SQLite file or JSON-lines directory (default data/prop24.sqlite or data/prop24-jsonl)",
+      type: "string",
+      default: process.env.STORE_PATH,
+      global: true,
+    })
+    .conflicts("quiet", "verbose")
+    .middleware((args: any) => {
+      logger.configure({
+        format: args.logFormat,
+        verbosity: args.quiet ? "quiet" : args.verbose ? "verbose" : "normal",
+      });
+      store = createRepository(args.store as StoreKind, args.storePath);
+    })
+    .help()
+    .alias("h", "help")
+    .version()
+    .alias("v", "version")
+    .demandCommand(1, "Please provide a command")
+    .parseAsync();
+}
+
+async function scrapeSuburb(
+  suburb: string,
+  options?: CliScraperOptions & { fromHtml?: string },
+  enrichOptions?: EnrichOptions
+): Promise<void> {
+  try {
+    logger.banner("📦 Prop24 Web Scraper");
+
+    // Connect to database
+    await store.connect();
+    await store.ensureSchema();
+
+    const { fromHtml, ...scraperOptions } = options ?? {};
+    const listingType = scraperOptions.mode ?? "sale";
+    let result: ScraperResult;
+    let counts: ScrapeCounts;
+    let scraper: Property24Scraper | null = null;
+
+    if (fromHtml) {
+      // Parse saved listing pages; no browser needed
+      logger.info(`Parsing saved pages from: ${fromHtml}`, undefined, {
+        icon: "🗂️",
+      });
+      const runId = await store.createScrapeRun(suburb, listingType);
+      result = await parseListingHtmlDir(
+        fromHtml,
+        suburb,
+        scraperOptions.selectors
+      );
+      counts = await saveScrapeResult(suburb, runId, result, listingType);
+    } else {
+      // Initialize scraper, starting from the registered URL if there is one
+      const registered = await getRegisteredSuburb(suburb);
+      scraper = new Property24Scraper({
+        suburb,
+        ...scraperOptions,
+        ...(registered && { listingUrl: registered.listing_url }),
+      });
+
+      await scraper.init();
+
+      // Scrape properties
+      const runId = await store.createScrapeRun(suburb, listingType);
+      result = await scraper.scrapeSuburb();
+      counts = await saveScrapeResult(suburb, runId, result, listingType);
+    }
+
+    // Display results
+    logger.summary(
+      "scrape",
+      {
+        suburb,
+        success: result.success,
+        pagesVisited: result.pagesVisited,
+        pagesExpected: result.pagesExpected,
+        propertiesFound: result.propertiesScraped,
+        propertiesSaved: result.propertiesSaved,
+        ...counts,
+        errors: result.errors,
+      },
+      () => {
+        console.log("\n✅ Scraping completed");
+        console.log("=".repeat(50));
+        console.log(`📊 Results:`);
+        if (result.pagesVisited !== undefined) {
+          console.log(
+            `   Pages visited: ${result.pagesVisited}${
+              result.pagesExpected !== undefined
+                ? ` of ${result.pagesExpected}`
+                : ""
+            }`
+          );
+        }
+        console.log(`   Properties found: ${result.propertiesScraped}`);
+        console.log(`   Properties saved: ${result.propertiesSaved}`);
+        console.log(`      Inserted: ${counts.inserted}`);
+        console.log(`      Updated: ${counts.updated}`);
+        console.log(`      Unchanged: ${counts.unchanged}`);
+        console.log(`      Failed: ${counts.failed}`);
+        console.log(`   Properties rejected: ${counts.rejected}`);
+        if (counts.rejected > 0) {
+          console.log(
+            `      Reasons: ${formatRejectionCounts(counts.rejectionCounts)}`
+          );
+        }
+        console.log(`   Properties removed: ${counts.removed}`);
+        if (counts.alerts > 0) {
+          console.log(`   Alerts sent: ${counts.alerts}`);
+        }
+        if (result.errors.length > 0) {
+          console.log(`   Errors: ${result.errors.join(", ")}`);
+        }
+      }
+    );
+
+    // Enrich from detail pages
+    if (enrichOptions) {
+      if (!scraper) {
+        scraper = new Property24Scraper({ suburb, ...scraperOptions });
+        await scraper.init();
+      }
+      await enrichProperties(scraper, suburb, enrichOptions);
+    }
+
+    // Close browser
+    await scraper?.close();
+
+    // Close database connection
+    await store.close();
+  } catch (error) {
+    logger.fatal(error);
+    process.exit(1);
+  }
+}
+
+// Set once the Postgres-only steps of saving a scrape were reported skipped
+let warnedPostgresOnly = false;
+
+/**
+ * Save a scrape's properties against its run, mark listings that a complete
+ * run no longer saw as removed, then close the run so it shows up in `runs`.
+ * On Postgres, also register the suburb's listing URL and send alerts for
+ * saved searches watching the suburb.
+ */
+async function saveScrapeResult(
+  suburb: string,
+  runId: number,
+  result: ScraperResult,
+  listingType: ListingType = "sale"
+): Promise<ScrapeCounts> {
+  const properties = result.properties ?? [];
+  const counts = await saveProperties(properties, suburb, runId);
+  result.propertiesSaved = counts.inserted + counts.updated + counts.unchanged;
+
+  // A listing missing from a partial run may just be on a page we skipped
+  let removed = 0;
+  if (result.complete && counts.failed === 0) {
+    removed = await store.markUnseenPropertiesRemoved(
+      suburb,
+      runId,
+      properties.map((property) => property.property_url),
+      listingType
+    );
+  } else {
+    logger.info(
+      "Run was partial, not checking for removed listings",
+      { suburb },
+      { icon: "ℹ️" }
+    );
+  }
+
+  await store.finishScrapeRun(runId, result, { ...counts, removed });
+
+  // The registry, saved searches and duplicate clusters live in Postgres only
+  if (store.kind !== "postgres") {
+    if (!warnedPostgresOnly) {
+      logger.warn(
+        `Not registering the listing URL, sending alerts or updating duplicate clusters: these need the Postgres store, not --store ${store.kind}`,
+        { store: store.kind }
+      );
+      warnedPostgresOnly = true;
+    }
+    return { ...counts, removed, alerts: 0 };
+  }
+
+  if (result.success && result.resolvedUrl) {
+    try {
+      await rememberListingUrl(suburb, result.resolvedUrl);
+    } catch (error) {
+      logger.warn(
+        `Could not register the listing URL: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        { suburb }
+      );
+    }
+  }
+
+  // Alerts are a side effect; a failure here shouldn't fail the scrape
+  let alerts = 0;
+  try {
+    alerts = await sendAlerts(suburb, runId);
+  } catch (error) {
+    logger.warn(
+      `Could not check saved searches: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { suburb }
+    );
+  }
+
+  // Keep the duplicate clusters `--dedupe` relies on current
+  try {
+    await updateDuplicateClusters(suburb);
+  } catch (error) {
+    logger.warn(
+      `Could not update duplicate clusters: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      { suburb }
+    );
+  }
+
+  return { ...counts, removed, alerts };
+}
+
+/**
+ * Validate and save scraped properties. Records that fail validation are
+ * quarantined in `rejected_properties`; the rest are upserted together in
+ * one transaction.
+ */
+async function saveProperties(
+  properties: ScrapedProperty[],
+  suburb: string,
+  runId?: number
+): Promise<SaveCounts> {
+  const counts: SaveCounts = {
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+    failed: 0,
+    rejected: 0,
+    rejectionCounts: {},
+  };
+  if (properties.length > 0) {
+    logger.info("Saving properties to database...", undefined, {
+      icon: "💾",
+      spaced: true,
+    });
+
+    const valid: Property[] = [];
+    for (const { raw_html, ...property } of properties) {
+      const issues = validateProperty(property, suburb);
+      if (issues.length > 0) {
+        const reasons = [...new Set(issues.map((issue) => issue.reason))];
+        for (const reason of reasons) {
+          counts.rejectionCounts[reason] =
+            (counts.rejectionCounts[reason] ?? 0) + 1;
+        }
+        logger.warn(
+          `Rejected property: ${property.property_url} (${issues
+            .map((issue) => issue.message)
+            .join("; ")})`,
+          { url: property.property_url, reasons }
+        );
+
+        try {
+          await store.insertRejectedProperty({
+            suburb,
+            reasons,
+            messages: issues.map((issue) => issue.message),
+            parsed: { ...property },
+            ...(runId !== undefined && { run_id: runId }),
+            ...(property.property_url && {
+              property_url: property.property_url,
+            }),
+            ...(raw_html !== undefined && { raw_html }),
+          });
+          counts.rejected++;
+        } catch (error) {
+          counts.failed++;
+        }
+        continue;
+      }
+      valid.push(property);
+    }
+
+    let results: UpsertResult[];
+    try {
+      results = await store.upsertProperties(valid, runId);
+    } catch (error) {
+      // The transaction was rolled back, so nothing was saved
+      results = valid.map((property) => ({
+        property_url: property.property_url,
+        outcome: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+
+    for (const result of results) {
+      counts[result.outcome]++;
+      if (result.outcome === "failed") {
+        logger.warn(`Failed to save property: ${result.property_url}`, {
+          url: result.property_url,
+          error: result.error,
+        });
+      }
+    }
+  }
+  return counts;
+}
+
+function formatRejectionCounts(
+  rejectionCounts: SaveCounts["rejectionCounts"]
+): string {
+  return Object.entries(rejectionCounts)
+    .sort(([, a], [, b]) => (b ?? 0) - (a ?? 0))
+    .map(([reason, count]) => `${reason}: ${count}`)
+    .join(", ");
+}
+
+async function scrapeBatch(
+  file: string,
+  options: CliScraperOptions & { concurrency: number }
+): Promise<void> {
+  try {
+    logger.banner("📦 Prop24 Batch Scraper");
+
+    const suburbs = readSuburbsFile(file);
+    if (suburbs.length === 0) {
+      throw new Error(`No suburbs found in ${file}`);
+    }
+    logger.info(
+      `${suburbs.length} suburbs queued (concurrency ${options.concurrency})`,
+      { suburbs, concurrency: options.concurrency },
+      { icon: "🗂️" }
+    );
+
+    // Connect to database
+    await store.connect();
+    await store.ensureSchema();
+
+    // One browser for the whole batch; each suburb gets its own tab(s)
+    const { concurrency, ...scraperOptions } = options;
+    const browser = await launchBrowser(scraperOptions.headless ?? true);
+
+    const results = await mapWithConcurrency(
+      suburbs,
+      concurrency,
+      async (suburb: string): Promise<ScraperResult> => {
+        // A failing suburb is reported in the summary, never aborts the batch
+        try {
+          return await scrapeWithBrowser(suburb, browser, scraperOptions);
+        } catch (error) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          return {
+            success: false,
+            propertiesScraped: 0,
+            propertiesSaved: 0,
+            errors: [errorMessage],
+            message: `Failed to scrape properties: ${errorMessage}`,
+          };
+        }
+      }
+    );
+
+    // Close browser
+    await browser.close();
+    logger.info("Browser closed", undefined, { icon: "✓" });
+
+    // Display combined results
+    const failedCount = results.filter((result) => !result.success).length;
+    const totalFound = results.reduce((sum, r) => sum + r.propertiesScraped, 0);
+    const totalSaved = results.reduce((sum, r) => sum + r.propertiesSaved, 0);
+    logger.summary(
+      "scrape-batch",
+      {
+        suburbs: results.map((result, index) => ({
+          suburb: suburbs[index],
+          success: result.success,
+          propertiesFound: result.propertiesScraped,
+          propertiesSaved: result.propertiesSaved,
+          errors: result.errors,
+        })),
+        succeeded: results.length - failedCount,
+        failed: failedCount,
+        propertiesFound: totalFound,
+        propertiesSaved: totalSaved,
+      },
+      () => {
+        console.log("\n✅ Batch scraping completed");
+        console.log("=".repeat(50));
+        console.log(`📊 Results:`);
+        results.forEach((result: ScraperResult, index: number) => {
+          const icon = result.success ? "✓" : "✗";
+          console.log(
+            `   ${icon} ${suburbs[index]}: ${result.propertiesScraped} found, ${result.propertiesSaved} saved`
+          );
+          if (result.errors.length > 0) {
+            console.log(`      Errors: ${result.errors.join(", ")}`);
+          }
+        });
+        console.log(
+          `\n   Suburbs: ${results.length - failedCount} succeeded, ${failedCount} failed`
+        );
+        console.log(`   Properties found: ${totalFound}`);
+        console.log(`   Properties saved: ${totalSaved}`);
+      }
+    );
+
+    // Close database connection
+    await store.close();
+
+    if (failedCount > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.fatal(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Scrape a suburb in a tab of a shared browser and save the result as a run.
+ */
+async function scrapeWithBrowser(
+  suburb: string,
+  browser: Browser,
+  options: CliScraperOptions
+): Promise<ScraperResult> {
+  const registered = await getRegisteredSuburb(suburb);
+  const scraper = new Property24Scraper({
+    suburb,
+    ...options,
+    ...(registered && { listingUrl: registered.listing_url }),
+  });
+  await scraper.init(browser);
+  const listingType = options.mode ?? "sale";
+  const runId = await store.createScrapeRun(suburb, listingType);
+  const result = await scraper.scrapeSuburb();
+  await scraper.close();
+
+  await saveScrapeResult(suburb, runId, result, listingType);
+  return result;
+}
+
+/**
+ * The suburb's registry entry, if any. The registry is kept in Postgres, so
+ * other stores always search the site.
+ */
+async function getRegisteredSuburb(suburb: string): Promise<Suburb | null> {
+  return store.kind === "postgres" ? getSuburb(suburb) : null;
+}
+
+async function runDaemon(
+  configFile: string,
+  options: CliScraperOptions & {
+    concurrency?: number;
+    shutdownTimeout: number;
+  }
+): Promise<void> {
+  try {
+    logger.banner("📦 Prop24 Scrape Daemon");
+    requirePostgres("daemon");
+
+    const { concurrency, shutdownTimeout, mode, ...scraperOptions } = options;
+    const config = loadScheduleConfig(configFile, mode);
+    const daemonConcurrency = Math.max(
+      1,
+      concurrency ?? config.concurrency ?? DEFAULT_DAEMON_CONCURRENCY
+    );
+
+    // Connect to database, with a client per running scrape's lock on top of
+    // the ones saving
+    sizePoolForConcurrency(daemonConcurrency);
+    await connectDB();
+    await assertSchemaUpToDate();
+
+    const daemon = new ScrapeDaemon(config, {
+      concurrency: daemonConcurrency,
+      headless: scraperOptions.headless ?? true,
+      scrape: (entry, browser) =>
+        scrapeWithBrowser(entry.suburb, browser, {
+          ...scraperOptions,
+          ...(entry.mode !== undefined && { mode: entry.mode }),
+          ...(entry.maxPages !== undefined && { maxPages: entry.maxPages }),
+        }),
+    });
+    daemon.start();
+    logger.info(
+      `Scheduled ${config.suburbs.length} suburb(s); stop with Ctrl+C or SIGTERM`,
+      undefined,
+      { icon: "⏰" }
+    );
+
+    // A second signal while shutting down exits immediately
+    const shutdown = (signal: string) => {
+      logger.info(`${signal} received, shutting down daemon...`, undefined, {
+        icon: "🛑",
+        spaced: true,
+      });
+      daemon
+        .stop(shutdownTimeout)
+        .then(() => closeDB())
+        .then(() => process.exit(0))
+        .catch((error) => {
+          logger.fatal(error);
+          process.exit(1);
+        });
+    };
+    process.once("SIGINT", () => shutdown("SIGINT"));
+    process.once("SIGTERM", () => shutdown("SIGTERM"));
+  } catch (error) {
+    logger.fatal(error);
+    process.exit(1);
+  }
+}
+
+/**
+ * One suburb per line; blank lines and lines starting with `#` are ignored.
+ */
+function readSuburbsFile(file: string): string[] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+}
+
+async function enrichSuburb(
+  suburb: string,
+  options: CliScraperOptions,
+  enrichOptions: EnrichOptions
+): Promise<void> {
+  try {
+    logger.banner("📦 Prop24 Detail Enrichment");
+
+    // Connect to database
+    await store.connect();
+    await store.ensureSchema();
+
+    const scraper = new Property24Scraper({ suburb, ...options });
+    await scraper.init();
+
+    await enrichProperties(scraper, suburb, enrichOptions);
+
+    // Close browser
+    await scraper.close();
+
+    // Close database connection
+    await store.close();
+  } catch (error) {
+    logger.fatal(error);
+    process.exit(1);
+  }
+}
+
+async function enrichProperties(
+  scraper: Property24Scraper,
+  suburb: string,
+  options: EnrichOptions
+): Promise<void> {
+  const properties = await store.getPropertiesToEnrich(
+    suburb,
+    options.maxAgeDays
+  );
+
+  logger.info(
+    `Enriching ${properties.length} properties from detail pages (concurrency ${options.concurrency})...`,
+    { suburb, count: properties.length, concurrency: options.concurrency },
+    { icon: "🔎", spaced: true }
+  );
+
+  const outcomes = await mapWithConcurrency(
+    properties,
+    options.concurrency,
+    async (property: Property, index: number) => {
+      try {
+        const details = await scraper.scrapeDetailPage(property.property_url);
+        await store.updatePropertyDetails(property.property_url, details);
+        logger.info(
+          `[${index + 1}/${properties.length}] ${property.property_url}`,
+          { url: property.property_url },
+          { icon: "✓", indented: true }
+        );
+        return true;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        logger.warn(
+          `[${index + 1}/${properties.length}] Failed to enrich ${
+            property.property_url
+          }: ${errorMessage}`,
+          { url: property.property_url, error: errorMessage },
+          { indented: true }
+        );
+        return false;
+      }
+    }
+  );
+
+  const enrichedCount = outcomes.filter(Boolean).length;
+  logger.summary(
+    "enrich",
+    {
+      suburb,
+      enriched: enrichedCount,
+      failed: outcomes.length - enrichedCount,
+    },
+    () => {
+      console.log(`\n✅ Enrichment completed`);
+      console.log(`   Properties enriched: ${enrichedCount}`);
+      console.log(`   Properties failed: ${outcomes.length - enrichedCount}`);
+    }
+  );
+}
+
+async function listRuns(filter: ScrapeRunFilter): Promise<void> {
+  try {
+    console.log("\n📦 Prop24 Scrape Runs");
+    console.log("=".repeat(50));
+
+    // Connect to database
+    await store.connect();
+
+    const runs = await store.getScrapeRuns(filter);
+
+    if (runs.length === 0) {
+      console.log("\nNo scrape runs found");
+    } else {
+      runs.forEach((run: ScrapeRun) => {
+        const icon =
+          run.success === null || run.success === undefined
+            ? "…"
+            : !run.success
+            ? "✗"
+            : run.properties_found === 0
+            ? "⚠️ "
+            : "✓";
+        const startedAt = new Date(run.started_at).toLocaleString();
+        const duration = run.finished_at
+          ? `${Math.round(
+              (new Date(run.finished_at).getTime() -
+                new Date(run.started_at).getTime()) /
+                1000
+            )}s`
+          : "unfinished";
+
+        console.log(
+          `\n${icon} #${run.id} ${run.suburb}${
+            run.listing_type === "rent" ? " (rentals)" : ""
+          } — ${startedAt} (${duration})`
+        );
+        console.log(`   URL: ${run.resolved_url || "N/A"}`);
+        console.log(
+          `   Pages: ${run.pages_visited}, found: ${run.properties_found}, inserted: ${run.properties_inserted}, updated: ${run.properties_updated}, unchanged: ${run.properties_unchanged}, failed: ${run.properties_failed}, rejected: ${run.properties_rejected}, removed: ${run.properties_removed}`
+        );
+        if (run.properties_rejected > 0) {
+          console.log(
+            `   Rejections: ${formatRejectionCounts(run.rejection_counts)}`
+          );
+        }
+        if (run.errors.length > 0) {
+          console.log(`   Errors: ${run.errors.join(", ")}`);
+        }
+        if (run.artifact_dir) {
+          console.log(`   Artifacts: ${run.artifact_dir}`);
+        }
+      });
+    }
+
+    // Close database connection
+    await store.close();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+async function serveApi(options: {
+  port: number;
+  host: string;
+}): Promise<void> {
+  try {
+    requirePostgres("serve");
+    console.log("\n📦 Prop24 API Server");
+    console.log("=".repeat(50));
+
+    // Connect to database
+    await connectDB();
+
+    const server = createApiServer();
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(options.port, options.host, () => resolve());
+    });
+    console.log(`🌐 Listening on http://${options.host}:${options.port}`);
+    console.log("   GET /properties?suburb=&min_price=&sort=&limit=&offset=");
+    console.log("   GET /properties/:id");
+    console.log("   GET /properties/by-url?url=");
+    console.log("   GET /suburbs");
+    console.log("   GET /suburbs/:suburb/stats");
+
+    const shutdown = () => {
+      console.log("\n🛑 Shutting down API server...");
+      server.close(() => {
+        closeDB().finally(() => process.exit(0));
+      });
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+async function renormaliseProperties(
+  suburbs: string[],
+  options: { dryRun: boolean }
+): Promise<void> {
+  try {
+    requirePostgres("renormalise");
+    console.log("\n📦 Prop24 Renormalise");
+    console.log("=".repeat(50));
+
+    // Connect to database
+    await connectDB();
+    await assertSchemaUpToDate();
+
+    const filter: PropertyFilter = {
+      includeRemoved: true,
+      suburbCaseInsensitive: true,
+      ...(suburbs.length > 0 && { suburbs }),
+    };
+
+    let checked = 0;
+    let changed = 0;
+    let failed = 0;
+    for await (const row of streamProperties(filter)) {
+      checked++;
+      const current = withNumericDecimals(row);
+      const normalised = normaliseProperty(current);
+
+      const changes = (["property_type", "status", "price_per_sqm"] as const)
+        .filter(
+          (field) => (current[field] ?? null) !== (normalised[field] ?? null)
+        )
+        .map(
+          (field) =>
+            `${field}: ${current[field] ?? "N/A"} → ${
+              normalised[field] ?? "N/A"
+            }`
+        );
+      if (changes.length === 0 || current.id === undefined) continue;
+
+      changed++;
+      console.log(`🔄 ${current.property_url}\n   ${changes.join(", ")}`);
+      if (options.dryRun) continue;
+
+      try {
+        await updateNormalisedFields(current.id, normalised);
+      } catch (error) {
+        failed++;
+        console.warn(`⚠️  Failed to update property: ${current.property_url}`);
+      }
+    }
+
+    console.log("\n✅ Renormalise completed");
+    console.log("=".repeat(50));
+    console.log(`   Properties checked: ${checked}`);
+    console.log(
+      `   Properties ${options.dryRun ? "to change" : "changed"}: ${changed}`
+    );
+    if (failed > 0) {
+      console.log(`   Failed: ${failed}`);
+    }
+
+    // Close database connection
+    await closeDB();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+async function cleanupArtifactFolders(
+  dir: string,
+  options: { olderThan: string; dryRun: boolean }
+): Promise<void> {
+  try {
+    console.log("\n📦 Prop24 Artifact Cleanup");
+    console.log("=".repeat(50));
+
+    const olderThan = parseDuration(options.olderThan);
+    const removed = await cleanupArtifacts(dir, olderThan, {
+      dryRun: options.dryRun,
+    });
+
+    removed.forEach((folder) => {
+      console.log(`🗑️  ${folder}`);
+    });
+    console.log(
+      `\n✅ ${removed.length} folder${removed.length === 1 ? "" : "s"} ${
+        options.dryRun ? "would be deleted" : "deleted"
+      } from ${dir} (older than ${options.olderThan})`
+    );
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+async function addSavedSearch(
+  search: Omit<SavedSearch, "price_drop_percent"> &
+    Partial<Pick<SavedSearch, "price_drop_percent">>,
+  options: { includeExisting: boolean }
+): Promise<void> {
+  try {
+    requirePostgres("watch add");
+    console.log("\n📦 Prop24 Watch");
+    console.log("=".repeat(50));
+
+    // Reject bad sinks before anything is stored
+    search.sinks.forEach(parseSink);
+    if (
+      search.min_price !== undefined &&
+      search.max_price !== undefined &&
+      search.min_price > search.max_price
+    ) {
+      throw new Error("--min-price must not be above --max-price");
+    }
+
+    // Connect to database
+    await connectDB();
+    await assertSchemaUpToDate();
+
+    const saved = await createSavedSearch({
+      ...search,
+      price_drop_percent: search.price_drop_percent ?? 5,
+    });
+    console.log(`✅ Saved search "${saved.name}" watching ${saved.suburb}`);
+    console.log(`   ${describeSavedSearch(saved)}`);
+
+    if (!options.includeExisting) {
+      const existing = await recordExistingMatches(saved);
+      console.log(
+        `   ${existing} listing${
+          existing === 1 ? "" : "s"
+        } already match; only new matches will be alerted`
+      );
+    }
+
+    // Close database connection
+    await closeDB();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+async function listSavedSearches(): Promise<void> {
+  try {
+    requirePostgres("watch list");
+    // Connect to database
+    await connectDB();
+    await assertSchemaUpToDate();
+
+    const searches = await getSavedSearches();
+    if (searches.length === 0) {
+      console.log("\nNo saved searches");
+    } else {
+      console.log(`\n🔔 ${searches.length} saved searches:\n`);
+      console.log(
+        formatTable(
+          ["Name", "Suburb", "Criteria", "Alerts to"],
+          searches.map((search) => [
+            search.name,
+            search.suburb,
+            describeSavedSearch(search),
+            search.sinks.join(", "),
+          ])
+        )
+      );
+    }
+
+    // Close database connection
+    await closeDB();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
 }
 
-async function scrapeSuburb(
-  suburb: string,
-  options?: { headless?: boolean; timeout?: number }
+async function removeSavedSearch(name: string): Promise<void> {
+  try {
+    requirePostgres("watch remove");
+    // Connect to database
+    await connectDB();
+    await assertSchemaUpToDate();
+
+    if (await deleteSavedSearch(name)) {
+      console.log(`✅ Removed saved search "${name}"`);
+    } else {
+      console.log(`No saved search named "${name}"`);
+      process.exitCode = 1;
+    }
+
+    // Close database connection
+    await closeDB();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+async function resolveSuburb(
+  name: string,
+  options: CliScraperOptions & { pick?: string }
 ): Promise<void> {
+  let scraper: Property24Scraper | null = null;
   try {
-    console.log("\n📦 Prop24 Web Scraper");
+    requirePostgres("suburbs resolve");
+    console.log("\n📦 Prop24 Suburb Registry");
     console.log("=".repeat(50));
 
     // Connect to database
     await connectDB();
+    await assertSchemaUpToDate();
 
-    // Initialize scraper
-    const scraper = new Property24Scraper({
-      suburb,
-      ...options,
-    });
-
+    const { pick, ...scraperOptions } = options;
+    scraper = new Property24Scraper({ suburb: name, ...scraperOptions });
     await scraper.init();
 
-    // Scrape properties
-    const result = await scraper.scrapeSuburb();
+    console.log(`\n🔍 Searching Property24 for: ${name}`);
+    let resolved: SuburbSearchResult;
+    try {
+      resolved = await scraper.resolveSuburb();
+    } catch (error) {
+      if (!(error instanceof AmbiguousSuburbError)) throw error;
+      const choice = await chooseSuburb(name, error.candidates, pick);
+      console.log(`\n🔍 Searching Property24 for: ${choice}`);
+      resolved = await scraper.resolveSuburb(choice);
+    }
+    await scraper.close();
+    scraper = null;
 
-    // Save properties to database
-    let savedCount = 0;
-    if (result.properties && result.properties.length > 0) {
-      console.log("\n💾 Saving properties to database...");
+    const location = parseListingLocation(resolved.url);
+    if (!location) {
+      throw new Error(
+        `Search for ${name} landed on ${resolved.url}, which isn't a suburb results page`
+      );
+    }
 
-      for (const property of result.properties) {
-        try {
-          await insertProperty(property);
-          savedCount++;
-        } catch (error) {
-          console.warn(`⚠️  Failed to save property: ${property.property_url}`);
-        }
+    const suburb = await upsertSuburb({ ...location, name });
+    console.log(
+      `\n✅ ${suburb.name}${
+        resolved.suggestion ? ` (${resolved.suggestion})` : ""
+      } → ${suburb.listing_url}`
+    );
+    console.log(
+      `   City: ${suburb.city ?? "N/A"}, province: ${
+        suburb.province ?? "N/A"
+      }, location id: ${suburb.location_id ?? "N/A"}`
+    );
+
+    // Close database connection
+    await closeDB();
+  } catch (error) {
+    await scraper?.close().catch(() => {});
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Pick one of several suburbs a name matches: by `--pick` (a number or text
+ * matching one suggestion) or, in a terminal, by asking.
+ */
+async function chooseSuburb(
+  name: string,
+  candidates: string[],
+  pick?: string
+): Promise<string> {
+  const choose = (answer: string): string | undefined => {
+    const index = Number(answer);
+    if (Number.isInteger(index) && index >= 1) {
+      return candidates[index - 1];
+    }
+    const matches = candidates.filter((candidate) =>
+      candidate.toLowerCase().includes(answer.trim().toLowerCase())
+    );
+    return matches.length === 1 ? matches[0] : undefined;
+  };
+
+  console.log(`\n"${name}" matches several suburbs:`);
+  candidates.forEach((candidate, index) =>
+    console.log(`   ${index + 1}. ${candidate}`)
+  );
+
+  if (pick !== undefined) {
+    const choice = choose(pick);
+    if (choice === undefined) {
+      throw new Error(`--pick "${pick}" doesn't match exactly one of them`);
+    }
+    return choice;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `"${name}" is ambiguous; rerun with --pick <number or text> to choose`
+    );
+  }
+
+  const prompt = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    for (;;) {
+      const answer = await prompt.question(
+        `\nWhich one? [1-${candidates.length}] `
+      );
+      const choice = choose(answer);
+      if (choice !== undefined) {
+        return choice;
       }
+      console.log("Please enter one of the numbers above");
     }
+  } finally {
+    prompt.close();
+  }
+}
 
-    // Display results
-    console.log("\n✅ Scraping completed");
+async function listSuburbs(): Promise<void> {
+  try {
+    requirePostgres("suburbs list");
+    // Connect to database
+    await connectDB();
+    await assertSchemaUpToDate();
+
+    const suburbs = await getSuburbs();
+    if (suburbs.length === 0) {
+      console.log(
+        "\nNo registered suburbs; they are added by `suburbs resolve` and by scrapes"
+      );
+    } else {
+      console.log(`\n📍 ${suburbs.length} registered suburbs:\n`);
+      console.log(
+        formatTable(
+          [
+            "Name",
+            "City",
+            "Province",
+            "Location id",
+            "Listing URL",
+            "Resolved",
+          ],
+          suburbs.map((suburb) => [
+            suburb.name,
+            suburb.city ?? "N/A",
+            suburb.province ?? "N/A",
+            suburb.location_id !== undefined
+              ? String(suburb.location_id)
+              : "N/A",
+            suburb.listing_url,
+            suburb.resolved_at
+              ? new Date(suburb.resolved_at).toLocaleString()
+              : "N/A",
+          ])
+        )
+      );
+    }
+
+    // Close database connection
+    await closeDB();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+function describeSavedSearch(search: SavedSearch): string {
+  const criteria: string[] = [];
+  if (search.min_price !== undefined && search.max_price !== undefined) {
+    criteria.push(
+      `${formatAmount(search.min_price)}–${formatAmount(search.max_price)}`
+    );
+  } else if (search.min_price !== undefined) {
+    criteria.push(`from ${formatAmount(search.min_price)}`);
+  } else if (search.max_price !== undefined) {
+    criteria.push(`up to ${formatAmount(search.max_price)}`);
+  }
+  if (search.property_types.length > 0) {
+    criteria.push(search.property_types.join("/"));
+  }
+  if (search.min_bedrooms !== undefined) {
+    criteria.push(`${search.min_bedrooms}+ beds`);
+  }
+  criteria.push(`drops ≥ ${search.price_drop_percent}%`);
+  return criteria.join(", ");
+}
+
+async function runSelectorCheck(
+  htmlFile: string,
+  options: { page: "listing" | "detail"; selectors?: string }
+): Promise<void> {
+  try {
+    console.log("\n📦 Prop24 Selector Check");
     console.log("=".repeat(50));
-    console.log(`📊 Results:`);
-    console.log(`   Properties found: ${result.propertiesScraped}`);
-    console.log(`   Properties saved: ${savedCount}`);
-    if (result.errors.length > 0) {
-      console.log(`   Errors: ${result.errors.join(", ")}`);
+
+    const profile = loadSelectorProfile(options.selectors);
+    const html = fs.readFileSync(htmlFile, "utf8");
+    const report = checkSelectors(html, profile, options.page);
+
+    console.log(`\n🧩 Profile: ${report.profile} (v${profile.version})`);
+    console.log(`📄 Page: ${htmlFile} (${report.pageType})`);
+
+    console.log("\n🔎 Selectors");
+    console.log(
+      formatTable(
+        ["Key", "Matches", "Selector"],
+        report.selectors.map((entry) => [
+          `${entry.matches > 0 ? "✓" : "✗"} ${entry.key}`,
+          String(entry.matches),
+          entry.selector,
+        ])
+      )
+    );
+
+    if (report.cards !== undefined) {
+      console.log(`\n🏠 Cards extracted: ${report.cards}`);
     }
 
-    // Close browser
-    await scraper.close();
+    console.log("\n🧾 Fields");
+    const total = report.cards ?? 1;
+    console.log(
+      formatTable(
+        ["Field", "Extracted"],
+        report.fields.map((entry) => [
+          `${entry.extracted > 0 ? "✓" : "✗"} ${entry.field}`,
+          `${entry.extracted}/${total}`,
+        ])
+      )
+    );
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+async function runMigrations(
+  direction: "up" | "down" | "status",
+  options: { to?: string; steps?: number } = {}
+): Promise<void> {
+  try {
+    requirePostgres("migrate");
+    console.log("\n📦 Prop24 Database Migrations");
+    console.log("=".repeat(50));
+
+    // Connect to database
+    await connectDB();
+
+    if (direction === "up") {
+      const applied = await migrateUp(options.to);
+      console.log(
+        applied.length > 0
+          ? `\n✅ Applied ${applied.length} migration(s)`
+          : "\n✅ Schema is up to date"
+      );
+    } else if (direction === "down") {
+      const rolledBack = await migrateDown(options.steps);
+      console.log(
+        rolledBack.length > 0
+          ? `\n✅ Rolled back ${rolledBack.length} migration(s)`
+          : "\n✅ Nothing to roll back"
+      );
+    } else {
+      const statuses = await getMigrationStatus();
+      statuses.forEach((migration) => {
+        const state = migration.applied
+          ? `applied ${new Date(migration.appliedAt).toLocaleString()}`
+          : "pending";
+        console.log(`  ${migration.version}_${migration.name}: ${state}`);
+      });
+      const pendingCount = statuses.filter((m) => !m.applied).length;
+      console.log(
+        `\n📊 ${statuses.length - pendingCount} applied, ${pendingCount} pending`
+      );
+    }
 
     // Close database connection
     await closeDB();
@@ -118,37 +2214,122 @@ async function scrapeSuburb(
   }
 }
 
-async function listProperties(suburb: string): Promise<void> {
+/**
+ * Copy numeric CLI args onto option keys, skipping unset ones and rejecting
+ * values yargs couldn't parse as numbers.
+ */
+function numericOptions<K extends string>(
+  args: any,
+  mapping: Record<K, string>
+): Partial<Record<K, number>> {
+  const options: Partial<Record<K, number>> = {};
+  for (const [key, argName] of Object.entries(mapping) as [K, string][]) {
+    const value = args[argName];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || isNaN(value) || value < 0) {
+      throw new Error(`--${toKebabCase(argName)} must be a non-negative number`);
+    }
+    options[key] = value;
+  }
+  return options;
+}
+
+function toKebabCase(value: string): string {
+  return value.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+function parseSort(value: string): NonNullable<PropertyQueryOptions["sort"]> {
+  const [field, direction = "asc"] = value.split(":");
+  if (!PROPERTY_SORT_FIELDS.includes(field as PropertySortField)) {
+    throw new Error(
+      `Unknown sort field "${field}". Available: ${PROPERTY_SORT_FIELDS.join(", ")}`
+    );
+  }
+  if (direction !== "asc" && direction !== "desc") {
+    throw new Error(`Sort direction must be "asc" or "desc"`);
+  }
+  return { field: field as PropertySortField, direction };
+}
+
+async function listProperties(
+  suburbs: string[],
+  options: {
+    filter: Omit<PropertyFilter, "suburbs">;
+    query: Omit<PropertyQueryOptions, "sort"> & { sort: string };
+  }
+): Promise<void> {
   try {
     console.log("\n📦 Prop24 Properties Database");
     console.log("=".repeat(50));
 
+    const filter: PropertyFilter = { ...options.filter, suburbs };
+    if (filter.collapseDuplicates) {
+      requirePostgres("list --dedupe");
+    }
+    const query: PropertyQueryOptions = {
+      ...options.query,
+      sort: parseSort(options.query.sort),
+    };
+
     // Connect to database
-    await connectDB();
+    await store.connect();
 
-    const properties = await getPropertiesBySuburb(suburb);
+    const [properties, total] = await Promise.all([
+      store.queryProperties(filter, query),
+      store.countProperties(filter),
+    ]);
+    const suburbLabel = suburbs.join(", ");
 
     if (properties.length === 0) {
-      console.log(`\nNo properties found for suburb: ${suburb}`);
+      console.log(
+        total > 0
+          ? `\nNo properties on this page (${total} match in total)`
+          : `\nNo properties found for suburb: ${suburbLabel}`
+      );
     } else {
-      console.log(`\n📍 Properties in ${suburb} (${properties.length} total):`);
+      const first = (query.offset ?? 0) + 1;
+      const last = first + properties.length - 1;
+      console.log(
+        `\n📍 Properties in ${suburbLabel} (${first}-${last} of ${total}):`
+      );
       console.log("=".repeat(50));
 
       properties.forEach((prop: Property, index: number) => {
-        console.log(`\n${index + 1}. ${prop.street_address || "N/A"}`);
+        console.log(`\n${first + index}. ${prop.street_address || "N/A"}`);
         console.log(`   Estate: ${prop.estate_complex || "N/A"}`);
         console.log(`   Suburb: ${prop.suburb}`);
-        console.log(
-          `   Price: R${prop.total_price?.toLocaleString() || "N/A"}`
-        );
-        console.log(
-          `   Price/m²: R${prop.price_per_sqm?.toLocaleString() || "N/A"}`
-        );
+        if (prop.listing_type === "rent") {
+          console.log(`   Rent: ${formatAmount(prop.monthly_rent)}/month`);
+          console.log(`   Deposit: ${formatAmount(prop.deposit)}`);
+          if (prop.available_from) {
+            console.log(
+              `   Available: ${new Date(
+                prop.available_from
+              ).toLocaleDateString()}`
+            );
+          }
+          if (prop.furnished !== undefined && prop.furnished !== null) {
+            console.log(`   Furnished: ${prop.furnished ? "yes" : "no"}`);
+          }
+        } else {
+          console.log(
+            `   Price: R${prop.total_price?.toLocaleString() || "N/A"}`
+          );
+          console.log(
+            `   Price/m²: R${prop.price_per_sqm?.toLocaleString() || "N/A"}`
+          );
+        }
         console.log(`   Floor size: ${prop.floor_size_sqm || "N/A"} m²`);
         console.log(`   Type: ${prop.property_type || "N/A"}`);
         console.log(`   Bedrooms: ${prop.bedrooms || "N/A"}`);
         console.log(`   Bathrooms: ${prop.bathrooms || "N/A"}`);
         console.log(`   Status: ${prop.status || "N/A"}`);
+        if (prop.removed_at) {
+          console.log(
+            `   Removed: ${new Date(prop.removed_at).toLocaleDateString()}`
+          );
+        }
+        console.log(`   Days on market: ${prop.days_on_market ?? "N/A"}`);
         console.log(
           `   Listed: ${
             prop.listing_date
@@ -159,6 +2340,212 @@ async function listProperties(suburb: string): Promise<void> {
       });
     }
 
+    // Close database connection
+    await store.close();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+async function exportListings(
+  filter: PropertyFilter,
+  options: { format: ExportFormat; output: string; columns?: string }
+): Promise<void> {
+  try {
+    console.log("\n📦 Prop24 Export");
+    console.log("=".repeat(50));
+
+    const columns = options.columns
+      ? options.columns.split(",").map((column) => column.trim())
+      : EXPORT_COLUMNS;
+    const unknownColumns = columns.filter(
+      (column) => !(EXPORT_COLUMNS as string[]).includes(column)
+    );
+    if (unknownColumns.length > 0) {
+      throw new Error(
+        `Unknown column(s): ${unknownColumns.join(", ")}. Available: ${EXPORT_COLUMNS.join(", ")}`
+      );
+    }
+
+    // Connect to database
+    await store.connect();
+
+    const count = await exportProperties(store.streamProperties(filter), {
+      format: options.format,
+      columns: columns as (keyof Property)[],
+      output: options.output,
+    });
+
+    console.log(`\n✅ Exported ${count} properties to ${options.output}`);
+
+    // Close database connection
+    await store.close();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+async function showSuburbStats(
+  suburb: string,
+  options: { json: boolean; collapseDuplicates: boolean }
+): Promise<void> {
+  try {
+    requirePostgres("stats");
+    if (options.json) {
+      // Keep stdout clean for piping: no banner or connection messages
+      const stats = await getSuburbStats(suburb, {
+        collapseDuplicates: options.collapseDuplicates,
+      });
+      console.log(JSON.stringify(stats, null, 2));
+      await closeDB();
+      return;
+    }
+
+    console.log("\n📦 Prop24 Market Summary");
+    console.log("=".repeat(50));
+
+    // Connect to database
+    await connectDB();
+
+    const stats = await getSuburbStats(suburb, {
+      collapseDuplicates: options.collapseDuplicates,
+    });
+
+    if (stats.overall.count === 0) {
+      console.log(`\nNo properties found for suburb: ${suburb}`);
+    } else {
+      if (options.collapseDuplicates) {
+        console.log("\nℹ️  Each duplicate cluster is counted once");
+      }
+      printSuburbStats(stats);
+    }
+
+    // Close database connection
+    await closeDB();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+function printSuburbStats(stats: SuburbStats): void {
+  const headers = [
+    "Group",
+    "Count",
+    "Median price",
+    "Mean price",
+    "Min price",
+    "Max price",
+    "Median R/m²",
+    "Mean R/m²",
+    "Min R/m²",
+    "Max R/m²",
+    "Median size",
+  ];
+  const toRow = (group: StatsGroup, label: string): string[] => [
+    label,
+    String(group.count),
+    formatAmount(roundOrNull(group.median_price)),
+    formatAmount(roundOrNull(group.mean_price)),
+    formatAmount(group.min_price),
+    formatAmount(group.max_price),
+    formatAmount(roundOrNull(group.median_price_per_sqm)),
+    formatAmount(roundOrNull(group.mean_price_per_sqm)),
+    formatAmount(group.min_price_per_sqm),
+    formatAmount(group.max_price_per_sqm),
+    group.median_floor_size_sqm !== null
+      ? `${Math.round(group.median_floor_size_sqm)} m²`
+      : "N/A",
+  ];
+
+  console.log(`\n📍 ${stats.suburb} (${stats.overall.count} properties)`);
+  console.log(`\n${formatTable(headers, [toRow(stats.overall, "All")])}`);
+
+  console.log("\n🏠 By property type");
+  console.log(
+    formatTable(
+      headers,
+      stats.byPropertyType.map((group) => toRow(group, group.group ?? "Unknown"))
+    )
+  );
+
+  console.log("\n🛏️  By bedrooms");
+  console.log(
+    formatTable(
+      headers,
+      stats.byBedrooms.map((group) =>
+        toRow(group, group.group !== null ? `${group.group} bed` : "Unknown")
+      )
+    )
+  );
+
+  console.log("\n🏷️  By status");
+  console.log(
+    formatTable(
+      ["Status", "Count", "Share"],
+      stats.byStatus.map((row) => [
+        row.status ?? "unknown",
+        String(row.count),
+        `${(row.share * 100).toFixed(1)}%`,
+      ])
+    )
+  );
+}
+
+async function showYields(
+  suburbs: string[],
+  options: { json: boolean }
+): Promise<void> {
+  try {
+    requirePostgres("yields");
+    if (options.json) {
+      // Keep stdout clean for piping: no banner or connection messages
+      const yields = await getYieldStats(suburbs);
+      console.log(JSON.stringify(yields, null, 2));
+      await closeDB();
+      return;
+    }
+
+    console.log("\n📦 Prop24 Rental Yields");
+    console.log("=".repeat(50));
+
+    // Connect to database
+    await connectDB();
+
+    const yields = await getYieldStats(suburbs);
+
+    if (yields.length === 0) {
+      console.log(`\nNo properties found for: ${suburbs.join(", ")}`);
+    } else {
+      console.log(
+        `\n${formatTable(
+          [
+            "Suburb",
+            "Type",
+            "Sales",
+            "Median price",
+            "Rentals",
+            "Median rent",
+            "Gross yield",
+          ],
+          yields.map((row) => [
+            row.suburb,
+            row.property_type ?? "All",
+            String(row.sale_count),
+            formatAmount(roundOrNull(row.median_price)),
+            String(row.rent_count),
+            formatAmount(roundOrNull(row.median_rent)),
+            row.gross_yield !== null ? `${row.gross_yield.toFixed(1)}%` : "N/A",
+          ])
+        )}`
+      );
+      console.log(
+        "\nGross yield is median monthly rent × 12 over median sale price (active listings)."
+      );
+    }
+
     // Close database connection
     await closeDB();
   } catch (error) {
@@ -167,6 +2554,183 @@ async function listProperties(suburb: string): Promise<void> {
   }
 }
 
+function roundOrNull(value: number | null): number | null {
+  return value === null ? null : Math.round(value);
+}
+
+async function reviewDuplicates(
+  suburb: string,
+  options: { confirm: number[]; split: number[]; minConfidence: number }
+): Promise<void> {
+  try {
+    requirePostgres("duplicates");
+    for (const id of [...options.confirm, ...options.split]) {
+      if (!Number.isInteger(id)) {
+        throw new Error(`Invalid listing id: ${id}`);
+      }
+    }
+    console.log("\n📦 Prop24 Duplicate Listings");
+    console.log("=".repeat(50));
+
+    // Connect to database
+    await connectDB();
+    await assertSchemaUpToDate();
+
+    // Manual decisions first, so detection works around them
+    for (const id of options.split) {
+      if (await splitDuplicate(id)) {
+        console.log(`✂️  Split listing #${id} out of its cluster`);
+      } else {
+        console.log(`Listing #${id} isn't in a duplicate cluster`);
+        process.exitCode = 1;
+      }
+    }
+
+    const clusters = await updateDuplicateClusters(suburb, {
+      minConfidence: options.minConfidence,
+    });
+
+    // Confirmed after detection, so a cluster can be confirmed as shown
+    for (const id of options.confirm) {
+      const confirmed = await confirmDuplicateCluster(id);
+      if (confirmed > 0) {
+        console.log(`✅ Confirmed the cluster of listing #${id}`);
+        for (const cluster of clusters) {
+          if (cluster.members.some((member) => member.id === id)) {
+            cluster.confirmed = true;
+          }
+        }
+      } else {
+        console.log(`Listing #${id} isn't in a duplicate cluster`);
+        process.exitCode = 1;
+      }
+    }
+
+    if (clusters.length === 0) {
+      console.log(`\nNo duplicate listings found in ${suburb}`);
+    } else {
+      const listings = clusters.reduce(
+        (total, cluster) => total + cluster.members.length,
+        0
+      );
+      console.log(
+        `\n🔗 ${clusters.length} duplicate clusters in ${suburb} (${listings} listings), least confident first:`
+      );
+      clusters.forEach(printDuplicateCluster);
+      console.log(
+        "\nConfirm a cluster with --confirm <id> or take a listing out with --split <id>"
+      );
+    }
+
+    // Close database connection
+    await closeDB();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+function printDuplicateCluster(cluster: DuplicateCluster): void {
+  console.log(
+    `\n#${
+      cluster.canonical_property_id
+    }  confidence ${cluster.confidence.toFixed(2)}${
+      cluster.confirmed ? "  ✅ confirmed" : ""
+    }`
+  );
+  console.log(
+    formatTable(
+      ["Id", "Address", "Estate", "Price", "Beds", "Baths", "Size", "URL"],
+      cluster.members.map((member) => [
+        member.id === cluster.canonical_property_id
+          ? `${member.id}*`
+          : String(member.id),
+        member.street_address ?? "N/A",
+        member.estate_complex ?? "N/A",
+        formatAmount(
+          member.listing_type === "rent"
+            ? member.monthly_rent
+            : member.total_price
+        ),
+        member.bedrooms !== null && member.bedrooms !== undefined
+          ? String(member.bedrooms)
+          : "N/A",
+        member.bathrooms !== null && member.bathrooms !== undefined
+          ? String(member.bathrooms)
+          : "N/A",
+        member.floor_size_sqm ? `${member.floor_size_sqm} m²` : "N/A",
+        member.property_url,
+      ])
+    )
+  );
+}
+
+async function showPropertyHistory(propertyUrl: string): Promise<void> {
+  try {
+    console.log("\n📦 Prop24 Property History");
+    console.log("=".repeat(50));
+
+    // Connect to database
+    await store.connect();
+
+    const property = await store.getPropertyByUrl(propertyUrl);
+
+    if (!property || property.id === undefined) {
+      console.log(`\nNo property found for URL: ${propertyUrl}`);
+    } else {
+      const snapshots = await store.getPropertyHistory(property.id);
+
+      console.log(`\n📍 ${property.street_address || "N/A"}, ${property.suburb}`);
+      console.log(`   ${property.property_url}`);
+      console.log(`   ${snapshots.length} snapshot(s)`);
+      console.log("=".repeat(50));
+
+      snapshots.forEach((snapshot: PropertySnapshot, index: number) => {
+        const previous = index > 0 ? snapshots[index - 1] : undefined;
+        const recordedAt = snapshot.recorded_at
+          ? new Date(snapshot.recorded_at).toLocaleString()
+          : "N/A";
+
+        console.log(`\n${index + 1}. ${recordedAt}`);
+        console.log(
+          `   Price: ${formatAmount(snapshot.total_price)}${formatDelta(
+            snapshot.total_price,
+            previous?.total_price
+          )}`
+        );
+        console.log(
+          `   Price/m²: ${formatAmount(snapshot.price_per_sqm)}${formatDelta(
+            snapshot.price_per_sqm,
+            previous?.price_per_sqm
+          )}`
+        );
+        console.log(
+          `   Levies: ${formatAmount(snapshot.levies)}${formatDelta(
+            snapshot.levies,
+            previous?.levies
+          )}`
+        );
+        console.log(
+          `   Rates & taxes: ${formatAmount(
+            snapshot.rates_and_taxes
+          )}${formatDelta(snapshot.rates_and_taxes, previous?.rates_and_taxes)}`
+        );
+        const statusChange =
+          previous && previous.status !== snapshot.status
+            ? ` (was ${previous.status || "N/A"})`
+            : "";
+        console.log(`   Status: ${snapshot.status || "N/A"}${statusChange}`);
+      });
+    }
+
+    // Close database connection
+    await store.close();
+  } catch (error) {
+    console.error("\n❌ Fatal error:", error);
+    process.exit(1);
+  }
+}
+
 main().catch((error) => {
   console.error("❌ Unhandled error:", error);
   process.exit(1);
@@ -0,0 +1,735 @@
+import fs from "fs";
+import path from "path";
+import { LISTING_DATA_COLUMNS, SORT_COLUMNS } from "./database";
+import { logger } from "./logger";
+import type { PropertyRepository } from "./store";
+import type {
+  ListingType,
+  Property,
+  PropertyDetails,
+  PropertyFilter,
+  PropertyQueryOptions,
+  PropertySnapshot,
+  RejectedProperty,
+  SaveCounts,
+  ScrapeRun,
+  ScrapeRunFilter,
+  ScraperResult,
+  UpsertResult,
+} from "./types";
+
+type Table =
+  | "properties"
+  | "property_snapshots"
+  | "scrape_runs"
+  | "rejected_properties";
+
+const TABLES: Table[] = [
+  "properties",
+  "property_snapshots",
+  "scrape_runs",
+  "rejected_properties",
+];
+
+// Written as ISO strings and turned back into dates when loaded
+const DATE_FIELDS = new Set([
+  "listing_date",
+  "available_from",
+  "scrape_date",
+  "enriched_at",
+  "first_seen_at",
+  "last_seen_at",
+  "removed_at",
+  "created_at",
+  "updated_at",
+  "recorded_at",
+  "started_at",
+  "finished_at",
+  "rejected_at",
+]);
+
+// Every stored property column, so unset values are kept as null like in SQL
+const PROPERTY_FIELDS: (keyof Property)[] = [
+  "id",
+  "property_url",
+  "listing_type",
+  "street_address",
+  "estate_complex",
+  "suburb",
+  "city",
+  "postal_code",
+  "floor_size_sqm",
+  "erf_size_sqm",
+  "total_price",
+  "price_per_sqm",
+  "rates_and_taxes",
+  "levies",
+  "monthly_rent",
+  "deposit",
+  "available_from",
+  "furnished",
+  "status",
+  "status_raw",
+  "property_type",
+  "property_type_raw",
+  "bedrooms",
+  "bathrooms",
+  "parking_spaces",
+  "pets_allowed",
+  "description",
+  "listing_date",
+  "scrape_date",
+  "enriched_at",
+  "last_run_id",
+  "first_seen_at",
+  "last_seen_at",
+  "removed_at",
+  "canonical_property_id",
+  "duplicate_confidence",
+  "duplicate_confirmed",
+  "created_at",
+  "updated_at",
+];
+
+// Columns an upsert writes from the scraped listing
+const INSERT_FIELDS: (keyof Property)[] = [
+  "property_url",
+  "street_address",
+  "estate_complex",
+  "suburb",
+  "city",
+  "postal_code",
+  "floor_size_sqm",
+  "total_price",
+  "price_per_sqm",
+  "rates_and_taxes",
+  "levies",
+  "status",
+  "property_type",
+  "bedrooms",
+  "bathrooms",
+  "listing_date",
+  "status_raw",
+  "property_type_raw",
+  "monthly_rent",
+  "deposit",
+  "available_from",
+  "furnished",
+];
+
+const SNAPSHOT_FIELDS = [
+  "total_price",
+  "price_per_sqm",
+  "rates_and_taxes",
+  "levies",
+  "status",
+  "monthly_rent",
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Row = Record<string, unknown> & { id: number };
+
+/** A row's value for comparisons, with unset values as null */
+function valueOf(row: object, field: string): unknown {
+  const value = (row as Record<string, unknown>)[field];
+  if (value === undefined || value === null) return null;
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function withDaysOnMarket(property: Property): Property {
+  const firstSeen = property.first_seen_at?.getTime();
+  const until = property.removed_at?.getTime() ?? Date.now();
+  return {
+    ...property,
+    ...(firstSeen !== undefined && {
+      days_on_market: Math.floor((until - firstSeen) / DAY_MS),
+    }),
+  };
+}
+
+function matchesFilter(property: Property, filter: PropertyFilter): boolean {
+  const within = <T>(list: T[] | undefined, value: T | undefined) =>
+    !list || list.length === 0 || list.includes(value as T);
+  const atLeast = (value: number | undefined, min: number | undefined) =>
+    min === undefined || (value != null && value >= min);
+  const atMost = (value: number | undefined, max: number | undefined) =>
+    max === undefined || (value != null && value <= max);
+
+  const suburbs = filter.suburbCaseInsensitive
+    ? filter.suburbs?.map((suburb) => suburb.toLowerCase())
+    : filter.suburbs;
+  const suburb = filter.suburbCaseInsensitive
+    ? property.suburb.toLowerCase()
+    : property.suburb;
+
+  return (
+    within(suburbs, suburb) &&
+    within(filter.listingTypes, property.listing_type) &&
+    within(filter.statuses, property.status) &&
+    within(filter.propertyTypes, property.property_type) &&
+    atLeast(property.total_price, filter.minPrice) &&
+    atMost(property.total_price, filter.maxPrice) &&
+    atLeast(property.bedrooms, filter.minBedrooms) &&
+    atLeast(property.floor_size_sqm, filter.minFloorSize) &&
+    atMost(property.price_per_sqm, filter.maxPricePerSqm) &&
+    (filter.lastRunId === undefined ||
+      property.last_run_id === filter.lastRunId) &&
+    (filter.includeRemoved === true || property.removed_at == null)
+  );
+}
+
+/**
+ * Store kept as JSON-lines files, one per table, in a directory
+ * (`--store jsonl`). Rows are held in memory; every change appends the
+ * row's new version and the last version of an id wins when loading.
+ * Closing the store rewrites each changed file with one line per row.
+ */
+export class JsonlRepository implements PropertyRepository {
+  readonly kind = "jsonl";
+  private rows = new Map<Table, Map<number, Row>>();
+  private changed = new Set<Table>();
+  private pending: Map<Table, string[]> | null = null;
+  private open = false;
+
+  constructor(private dir: string) {}
+
+  async connect(): Promise<void> {
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      for (const table of TABLES) {
+        this.rows.set(table, this.load(table));
+      }
+      this.open = true;
+      logger.info(`Opened JSON-lines store ${this.dir}`, undefined, {
+        icon: "✓",
+      });
+    } catch (error: unknown) {
+      logger.error(
+        `Failed to open JSON-lines store ${this.dir}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        undefined,
+        { icon: "✗" }
+      );
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.open) return;
+
+    for (const table of this.changed) {
+      const lines = [...this.table(table).values()].map(
+        (row) => `${JSON.stringify(row)}\n`
+      );
+      const file = this.file(table);
+      fs.writeFileSync(`${file}.tmp`, lines.join(""));
+      fs.renameSync(`${file}.tmp`, file);
+    }
+    this.changed.clear();
+    this.rows.clear();
+    this.open = false;
+  }
+
+  // Table files are created as rows are written
+  async ensureSchema(): Promise<void> {}
+
+  async upsertProperties(
+    properties: Property[],
+    runId?: number
+  ): Promise<UpsertResult[]> {
+    return this.run("upserting properties", () => {
+      // Collect the new lines and append them together at the end
+      this.pending = new Map();
+      try {
+        return properties.map((property): UpsertResult => {
+          try {
+            return this.upsertProperty(property, runId);
+          } catch (error: unknown) {
+            return {
+              property_url: property.property_url,
+              outcome: "failed",
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+        });
+      } finally {
+        const pending = this.pending;
+        this.pending = null;
+        for (const [table, lines] of pending) {
+          fs.appendFileSync(this.file(table), lines.join(""));
+        }
+      }
+    });
+  }
+
+  private upsertProperty(property: Property, runId?: number): UpsertResult {
+    const now = new Date();
+    const existing = this.findByUrl(property.property_url) as Row | undefined;
+    const incoming = property as unknown as Record<string, unknown>;
+    const take = (field: string) => incoming[field] ?? null;
+    // Only set by enrichment or the detail page; cards rarely carry these
+    const keep = (field: string) =>
+      incoming[field] ?? existing?.[field] ?? null;
+
+    if (!existing) {
+      const row: Row = {
+        ...Object.fromEntries(PROPERTY_FIELDS.map((field) => [field, null])),
+        ...Object.fromEntries(
+          INSERT_FIELDS.map((field) => [field, take(field)])
+        ),
+        id: this.nextId("properties"),
+        listing_type: property.listing_type ?? "sale",
+        duplicate_confirmed: false,
+        last_run_id: runId ?? null,
+        scrape_date: now,
+        first_seen_at: now,
+        last_seen_at: now,
+        created_at: now,
+        updated_at: now,
+      };
+      this.write("properties", row);
+      const saved = row as unknown as Property;
+      this.recordSnapshotIfChanged(saved);
+      return {
+        property_url: property.property_url,
+        outcome: "inserted",
+        property: saved,
+      };
+    }
+
+    // Same merge rules as the Postgres upsert
+    const merged: Row = {
+      ...existing,
+      ...Object.fromEntries(INSERT_FIELDS.map((field) => [field, take(field)])),
+      street_address:
+        existing.enriched_at == null
+          ? take("street_address")
+          : existing.street_address,
+      floor_size_sqm:
+        existing.enriched_at == null
+          ? keep("floor_size_sqm")
+          : existing.floor_size_sqm ?? take("floor_size_sqm"),
+      postal_code: keep("postal_code"),
+      rates_and_taxes: keep("rates_and_taxes"),
+      levies: keep("levies"),
+      deposit: keep("deposit"),
+      available_from: keep("available_from"),
+      furnished: keep("furnished"),
+      listing_date: keep("listing_date"),
+      listing_type: property.listing_type ?? "sale",
+      last_run_id: runId ?? existing.last_run_id ?? null,
+      last_seen_at: now,
+      removed_at: null,
+    };
+    const changed =
+      existing.removed_at != null ||
+      LISTING_DATA_COLUMNS.some(
+        (column) => valueOf(existing, column) !== valueOf(merged, column)
+      );
+
+    // Unchanged listings only have their seen tracking refreshed
+    const row = changed ? { ...merged, updated_at: now } : merged;
+    this.write("properties", row);
+    const saved = row as unknown as Property;
+    if (changed) {
+      this.recordSnapshotIfChanged(saved);
+    }
+    return {
+      property_url: property.property_url,
+      outcome: changed ? "updated" : "unchanged",
+      property: saved,
+    };
+  }
+
+  async updatePropertyDetails(
+    propertyUrl: string,
+    details: PropertyDetails
+  ): Promise<Property | null> {
+    return this.run("updating property details", () => {
+      const existing = this.findByUrl(propertyUrl);
+      if (!existing) return null;
+
+      const now = new Date();
+      const updated: Property = {
+        ...existing,
+        enriched_at: now,
+        updated_at: now,
+      };
+      for (const [field, value] of Object.entries(details)) {
+        if (value !== undefined && value !== null) {
+          (updated as unknown as Record<string, unknown>)[field] = value;
+        }
+      }
+
+      this.write("properties", updated as unknown as Row);
+      this.recordSnapshotIfChanged(updated);
+      return updated;
+    });
+  }
+
+  async getPropertiesToEnrich(
+    suburb: string,
+    maxAgeDays: number
+  ): Promise<Property[]> {
+    return this.run("fetching properties to enrich", () => {
+      const cutoff = Date.now() - maxAgeDays * DAY_MS;
+      return this.properties()
+        .filter(
+          (property) =>
+            property.suburb === suburb &&
+            (property.enriched_at == null ||
+              property.enriched_at.getTime() < cutoff)
+        )
+        .sort(
+          (a, b) =>
+            (a.enriched_at?.getTime() ?? -Infinity) -
+              (b.enriched_at?.getTime() ?? -Infinity) ||
+            (a.id ?? 0) - (b.id ?? 0)
+        );
+    });
+  }
+
+  async getPropertyByUrl(propertyUrl: string): Promise<Property | null> {
+    return this.run("fetching property", () => {
+      const property = this.findByUrl(propertyUrl);
+      return property ? withDaysOnMarket(property) : null;
+    });
+  }
+
+  async getPropertiesBySuburb(
+    suburb: string,
+    options: { includeRemoved?: boolean } = {}
+  ): Promise<Property[]> {
+    return this.queryProperties(
+      {
+        suburbs: [suburb],
+        ...(options.includeRemoved !== undefined && {
+          includeRemoved: options.includeRemoved,
+        }),
+      },
+      { sort: { field: "listing_date", direction: "desc" } }
+    );
+  }
+
+  async getPropertyCount(): Promise<number> {
+    return this.run("getting property count", () => this.properties().length);
+  }
+
+  async queryProperties(
+    filter: PropertyFilter,
+    options: PropertyQueryOptions = {}
+  ): Promise<Property[]> {
+    return this.run("fetching properties", () => {
+      const sort = options.sort ?? { field: "listing_date", direction: "desc" };
+      const field = SORT_COLUMNS[sort.field];
+      const sign = sort.direction === "asc" ? 1 : -1;
+
+      const sorted = this.properties()
+        .filter((property) => matchesFilter(property, filter))
+        .map(withDaysOnMarket)
+        .sort((a, b) => {
+          const left = valueOf(a, field);
+          const right = valueOf(b, field);
+          // NULLS LAST in both directions, then id
+          if (left !== right) {
+            if (left === null) return 1;
+            if (right === null) return -1;
+            if ((left as number) < (right as number)) return -sign;
+            if ((left as number) > (right as number)) return sign;
+          }
+          return (a.id ?? 0) - (b.id ?? 0);
+        });
+
+      const start = options.offset ?? 0;
+      return sorted.slice(
+        start,
+        options.limit !== undefined ? start + options.limit : undefined
+      );
+    });
+  }
+
+  async countProperties(filter: PropertyFilter): Promise<number> {
+    return this.run(
+      "counting properties",
+      () =>
+        this.properties().filter((property) => matchesFilter(property, filter))
+          .length
+    );
+  }
+
+  async *streamProperties(filter: PropertyFilter): AsyncGenerator<Property> {
+    const matching = this.run("streaming properties", () =>
+      this.properties()
+        .filter((property) => matchesFilter(property, filter))
+        .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+        .map(withDaysOnMarket)
+    );
+    yield* matching;
+  }
+
+  async getPropertyHistory(propertyId: number): Promise<PropertySnapshot[]> {
+    return this.run("fetching property history", () =>
+      this.snapshots(propertyId)
+    );
+  }
+
+  async markUnseenPropertiesRemoved(
+    suburb: string,
+    runId: number,
+    seenUrls: string[] = [],
+    listingType: ListingType = "sale"
+  ): Promise<number> {
+    return this.run("marking removed properties", () => {
+      // Listings belong to the suburb of the run that last saw them, like
+      // the Postgres query
+      const runIds = new Set(
+        ([...this.table("scrape_runs").values()] as unknown as ScrapeRun[])
+          .filter(
+            (run) =>
+              run.suburb.toLowerCase() === suburb.trim().toLowerCase() &&
+              run.listing_type === listingType
+          )
+          .map((run) => run.id)
+      );
+      const seen = new Set(seenUrls);
+      const now = new Date();
+      let removed = 0;
+      for (const property of this.properties()) {
+        if (
+          property.last_run_id != null &&
+          runIds.has(property.last_run_id) &&
+          property.last_run_id !== runId &&
+          property.removed_at == null &&
+          !seen.has(property.property_url)
+        ) {
+          this.write("properties", {
+            ...property,
+            removed_at: now,
+            updated_at: now,
+          } as Row);
+          removed++;
+        }
+      }
+      return removed;
+    });
+  }
+
+  async insertRejectedProperty(rejected: RejectedProperty): Promise<void> {
+    this.run("inserting rejected property", () =>
+      this.write("rejected_properties", {
+        id: this.nextId("rejected_properties"),
+        run_id: rejected.run_id ?? null,
+        suburb: rejected.suburb,
+        property_url: rejected.property_url ?? null,
+        reasons: rejected.reasons,
+        messages: rejected.messages,
+        parsed: rejected.parsed,
+        raw_html: rejected.raw_html ?? null,
+        rejected_at: new Date(),
+      })
+    );
+  }
+
+  async createScrapeRun(
+    suburb: string,
+    listingType: ListingType = "sale"
+  ): Promise<number> {
+    return this.run("creating scrape run", () => {
+      const id = this.nextId("scrape_runs");
+      this.write("scrape_runs", {
+        id,
+        suburb,
+        listing_type: listingType,
+        resolved_url: null,
+        started_at: new Date(),
+        finished_at: null,
+        success: null,
+        pages_visited: 0,
+        properties_found: 0,
+        properties_inserted: 0,
+        properties_updated: 0,
+        properties_failed: 0,
+        properties_unchanged: 0,
+        properties_removed: 0,
+        properties_rejected: 0,
+        rejection_counts: {},
+        errors: [],
+        artifact_dir: null,
+      });
+      return id;
+    });
+  }
+
+  async finishScrapeRun(
+    runId: number,
+    result: ScraperResult,
+    counts: SaveCounts & { removed?: number }
+  ): Promise<void> {
+    this.run("finishing scrape run", () => {
+      const run = this.table("scrape_runs").get(runId);
+      if (!run) return;
+
+      this.write("scrape_runs", {
+        ...run,
+        resolved_url: result.resolvedUrl ?? null,
+        finished_at: new Date(),
+        success: result.success,
+        pages_visited: result.pagesVisited ?? 0,
+        properties_found: result.propertiesScraped,
+        properties_inserted: counts.inserted,
+        properties_updated: counts.updated,
+        properties_failed: counts.failed,
+        properties_unchanged: counts.unchanged,
+        errors: result.errors,
+        artifact_dir: result.artifactDir ?? run.artifact_dir ?? null,
+        properties_removed: counts.removed ?? 0,
+        properties_rejected: counts.rejected,
+        rejection_counts: counts.rejectionCounts,
+      });
+    });
+  }
+
+  async getScrapeRuns(filter: ScrapeRunFilter): Promise<ScrapeRun[]> {
+    return this.run("fetching scrape runs", () =>
+      ([...this.table("scrape_runs").values()] as unknown as ScrapeRun[])
+        .filter(
+          (run) =>
+            (filter.suburb === undefined || run.suburb === filter.suburb) &&
+            (!filter.failedOnly || run.success !== true)
+        )
+        .sort(
+          (a, b) =>
+            b.started_at.getTime() - a.started_at.getTime() || b.id - a.id
+        )
+        .slice(0, filter.limit ?? 20)
+    );
+  }
+
+  private recordSnapshotIfChanged(property: Property): void {
+    if (property.id === undefined) return;
+
+    const latest = this.snapshots(property.id).at(-1);
+    const unchanged =
+      latest !== undefined &&
+      SNAPSHOT_FIELDS.every(
+        (field) => valueOf(latest, field) === valueOf(property, field)
+      );
+    if (unchanged) return;
+
+    this.write("property_snapshots", {
+      id: this.nextId("property_snapshots"),
+      property_id: property.id,
+      ...Object.fromEntries(
+        SNAPSHOT_FIELDS.map((field) => [field, property[field] ?? null])
+      ),
+      recorded_at: new Date(),
+    });
+  }
+
+  private snapshots(propertyId: number): PropertySnapshot[] {
+    return (
+      [
+        ...this.table("property_snapshots").values(),
+      ] as unknown as PropertySnapshot[]
+    )
+      .filter((snapshot) => snapshot.property_id === propertyId)
+      .sort(
+        (a, b) =>
+          (a.recorded_at?.getTime() ?? 0) - (b.recorded_at?.getTime() ?? 0) ||
+          (a.id ?? 0) - (b.id ?? 0)
+      );
+  }
+
+  private properties(): Property[] {
+    return [...this.table("properties").values()] as unknown as Property[];
+  }
+
+  private findByUrl(propertyUrl: string): Property | undefined {
+    return this.properties().find(
+      (property) => property.property_url === propertyUrl
+    );
+  }
+
+  private table(table: Table): Map<number, Row> {
+    const rows = this.rows.get(table);
+    if (!rows) {
+      throw new Error("JSON-lines store is not open");
+    }
+    return rows;
+  }
+
+  private nextId(table: Table): number {
+    let max = 0;
+    for (const id of this.table(table).keys()) {
+      max = Math.max(max, id);
+    }
+    return max + 1;
+  }
+
+  /**
+   * Save a row's new version in memory and append it to the table's file, or
+   * to the pending lines while a bulk upsert runs.
+   */
+  private write(table: Table, row: Row): void {
+    const line = `${JSON.stringify(row)}\n`;
+    this.table(table).set(row.id, row);
+    if (this.pending) {
+      const lines = this.pending.get(table) ?? [];
+      lines.push(line);
+      this.pending.set(table, lines);
+    } else {
+      fs.appendFileSync(this.file(table), line);
+    }
+    this.changed.add(table);
+  }
+
+  private load(table: Table): Map<number, Row> {
+    const rows = new Map<number, Row>();
+    const file = this.file(table);
+    if (!fs.existsSync(file)) {
+      return rows;
+    }
+
+    const lines = fs.readFileSync(file, "utf8").split("\n");
+    lines.forEach((line, index) => {
+      if (line.trim() === "") return;
+      let row: Row;
+      try {
+        row = JSON.parse(line, (key, value) =>
+          DATE_FIELDS.has(key) && typeof value === "string"
+            ? new Date(value)
+            : value
+        );
+      } catch {
+        // A line cut short by a crash mid-append; the row's previous version stands
+        logger.warn(`Skipping unreadable line ${index + 1} of ${file}`);
+        return;
+      }
+      rows.set(row.id, row);
+    });
+    return rows;
+  }
+
+  private file(table: Table): string {
+    return path.join(this.dir, `${table}.jsonl`);
+  }
+
+  /** Run `fn` on the loaded tables, logging and rethrowing failures */
+  private run<T>(action: string, fn: () => T): T {
+    try {
+      if (!this.open) {
+        throw new Error("JSON-lines store is not open");
+      }
+      return fn();
+    } catch (error: unknown) {
+      logger.error(
+        `Error ${action}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      throw error;
+    }
+  }
+}
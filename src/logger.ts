@@ -0,0 +1,288 @@
+import type { ScraperEvent } from "./types";
+
+export type LogFormat = "human" | "json";
+
+export type LogVerbosity = "quiet" | "normal" | "verbose";
+
+export const LOG_FORMATS: LogFormat[] = ["human", "json"];
+
+type Level = "debug" | "info" | "warn" | "error";
+
+/**
+ * How a line is decorated in human format. JSON records only carry the
+ * plain message.
+ */
+export interface LogStyle {
+  icon?: string;
+  // Blank line before, to start a new section of output
+  spaced?: boolean;
+  // Indented under the line before
+  indented?: boolean;
+}
+
+// Icon used when a warning doesn't bring its own
+const WARN_ICON = "⚠️";
+
+// Lowest level shown at each verbosity
+const THRESHOLDS: Record<LogVerbosity, number> = {
+  quiet: 2,
+  normal: 1,
+  verbose: 0,
+};
+
+const LEVEL_ORDER: Record<Level, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Progress output for the scrape commands. In `human` format lines go to the
+ * console as before, decorated with their `LogStyle`; in `json` format every
+ * line is one JSON object on stdout (`{"time", "level", "type", ...}`) so a
+ * supervisor can parse it.
+ * `quiet` keeps warnings and errors only, `verbose` adds debug detail.
+ */
+export class Logger {
+  private format: LogFormat = "human";
+  private verbosity: LogVerbosity = "normal";
+
+  configure(options: { format?: LogFormat; verbosity?: LogVerbosity }): void {
+    this.format = options.format ?? this.format;
+    this.verbosity = options.verbosity ?? this.verbosity;
+  }
+
+  get isJson(): boolean {
+    return this.format === "json";
+  }
+
+  debug(
+    message: string,
+    fields?: Record<string, unknown>,
+    style?: LogStyle
+  ): void {
+    this.write("debug", "log", message, fields, style);
+  }
+
+  info(
+    message: string,
+    fields?: Record<string, unknown>,
+    style?: LogStyle
+  ): void {
+    this.write("info", "log", message, fields, style);
+  }
+
+  warn(
+    message: string,
+    fields?: Record<string, unknown>,
+    style?: LogStyle
+  ): void {
+    this.write("warn", "log", message, fields, style);
+  }
+
+  error(
+    message: string,
+    fields?: Record<string, unknown>,
+    style?: LogStyle
+  ): void {
+    this.write("error", "log", message, fields, style);
+  }
+
+  /** Command title line, human format only */
+  banner(title: string): void {
+    if (!this.isJson && this.verbosity !== "quiet") {
+      console.log(`\n${title}`);
+      console.log("=".repeat(50));
+    }
+  }
+
+  /** An error that ends the command; always shown */
+  fatal(error: unknown): void {
+    if (this.isJson) {
+      this.emitJson("error", "fatal", {
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } else {
+      console.error("\n❌ Fatal error:", error);
+    }
+  }
+
+  /**
+   * Report the outcome of a command: one `summary` record in JSON format, or
+   * the human-readable lines from `render`. Shown even when quiet.
+   */
+  summary(
+    name: string,
+    fields: Record<string, unknown>,
+    render: () => void
+  ): void {
+    this.record("summary", { name, ...fields }, render);
+  }
+
+  /**
+   * Output that is the point of a command rather than progress (e.g. an
+   * alert): a `type` record in JSON format, otherwise whatever `render`
+   * prints. Shown even when quiet.
+   */
+  record(
+    type: string,
+    fields: Record<string, unknown>,
+    render: () => void
+  ): void {
+    if (this.isJson) {
+      this.emitJson("info", type, fields);
+    } else {
+      render();
+    }
+  }
+
+  event(event: ScraperEvent): void {
+    const { level, message, style } = describeEvent(event);
+    const { type, ...fields } = event;
+    this.write(level, type, message, fields, style);
+  }
+
+  private write(
+    level: Level,
+    type: string,
+    message: string,
+    fields?: Record<string, unknown>,
+    style: LogStyle = {}
+  ): void {
+    if (LEVEL_ORDER[level] < THRESHOLDS[this.verbosity]) {
+      return;
+    }
+
+    if (this.isJson) {
+      this.emitJson(level, type, { message, ...fields });
+      return;
+    }
+
+    const line = decorate(
+      message,
+      level === "warn" ? { icon: WARN_ICON, ...style } : style
+    );
+    if (level === "error") {
+      console.error(line);
+    } else if (level === "warn") {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+
+  private emitJson(
+    level: Level,
+    type: string,
+    fields: Record<string, unknown>
+  ): void {
+    process.stdout.write(
+      `${JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        type,
+        ...fields,
+      })}\n`
+    );
+  }
+}
+
+export const logger = new Logger();
+
+function decorate(message: string, style: LogStyle): string {
+  let line = message;
+  if (style.icon) {
+    // Emoji with a variation selector are drawn one column wider than the
+    // terminal counts, so they get an extra space
+    line = `${style.icon}${style.icon.endsWith("\uFE0F") ? "  " : " "}${line}`;
+  }
+  if (style.indented) {
+    line = `  ${line}`;
+  }
+  return style.spaced ? `\n${line}` : line;
+}
+
+/**
+ * The level, message and human-format style for a scraper event.
+ */
+function describeEvent(event: ScraperEvent): {
+  level: Level;
+  message: string;
+  style?: LogStyle;
+} {
+  switch (event.type) {
+    case "suburb-started":
+      return {
+        level: "info",
+        message: `Scraping properties for: ${event.suburb}`,
+        style: { icon: "🔍" },
+      };
+    case "suburb-resolved":
+      return {
+        level: "info",
+        message: `Resolved URL: ${event.url}`,
+        style: { icon: "📍" },
+      };
+    case "results-counted":
+      return {
+        level: "info",
+        message: `${event.totalResults ?? "?"} results over ${
+          event.pageCount
+        } pages`,
+        style: { icon: "📊" },
+      };
+    case "page-started":
+      return {
+        level: "info",
+        message: `Extracting properties from page ${event.page}...`,
+        style: { icon: "📄" },
+      };
+    case "page-extracted":
+      return {
+        level: "info",
+        message: `Found ${event.count} properties on page ${event.page}`,
+        style: { indented: true },
+      };
+    case "page-failed":
+      return { level: "error", message: event.error, style: { icon: "✗" } };
+    case "last-page-reached":
+      return {
+        level: "info",
+        message: `Reached last page (${event.page} total pages)`,
+        style: { icon: "📄" },
+      };
+    case "card-parse-failed":
+      return {
+        level: "warn",
+        message: `Failed to parse property element: ${event.error}`,
+      };
+    case "retry":
+      return {
+        level: "warn",
+        message: `${event.label} failed (attempt ${event.attempt}/${
+          event.attempts
+        }): ${event.error}; retrying in ${(event.delay / 1000).toFixed(1)}s`,
+      };
+    case "artifact-saved":
+      return {
+        level: "debug",
+        message: `Artifacts saved: ${event.path}`,
+        style: { icon: "📸" },
+      };
+    case "warning":
+      return { level: "warn", message: event.message };
+    case "done":
+      return event.success
+        ? {
+            level: "info",
+            message: `Found ${event.propertiesScraped} properties`,
+            style: { icon: "✓" },
+          }
+        : {
+            level: "error",
+            message: `Scraping error: ${event.errors.join(", ")}`,
+            style: { icon: "✗" },
+          };
+  }
+}
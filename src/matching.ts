@@ -0,0 +1,311 @@
+import { getDuplicateCandidates, saveDuplicateClusters } from "./database";
+import type { DuplicateCluster, Property } from "./types";
+
+// Pairs scoring at least this are clustered unless told otherwise
+export const DEFAULT_MIN_CONFIDENCE = 0.7;
+
+// What each signal adds to a pair's score; they add up to 1
+const MATCH_WEIGHTS = {
+  address: 0.35,
+  estate: 0.2,
+  floorSize: 0.2,
+  rooms: 0.1,
+  price: 0.15,
+};
+
+// Listings further apart than this (as a fraction of the larger value) are
+// never the same property
+const FLOOR_SIZE_TOLERANCE = 0.05;
+const PRICE_TOLERANCE = 0.1;
+
+// Spelled-out forms of the street words agencies abbreviate
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  st: "street",
+  str: "street",
+  rd: "road",
+  ave: "avenue",
+  av: "avenue",
+  dr: "drive",
+  cres: "crescent",
+  ln: "lane",
+  pl: "place",
+  cl: "close",
+  ct: "court",
+  blvd: "boulevard",
+  hwy: "highway",
+  ext: "extension",
+  apt: "unit",
+  flat: "unit",
+  no: "",
+};
+
+/**
+ * Reduce an address or complex name to a comparable form: lower case,
+ * without punctuation, with street abbreviations spelled out. Returns null
+ * when nothing is left.
+ */
+export function normaliseAddress(
+  text: string | undefined | null
+): string | null {
+  const words = (text ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .filter((word) => word.length > 0);
+  return words.length > 0 ? words.join(" ") : null;
+}
+
+interface MatchCandidate {
+  property: Property;
+  address: string | null;
+  estate: string | null;
+  price: number | undefined;
+}
+
+function toCandidate(property: Property): MatchCandidate {
+  return {
+    property,
+    address: normaliseAddress(property.street_address),
+    estate: normaliseAddress(property.estate_complex),
+    price:
+      property.listing_type === "rent"
+        ? property.monthly_rent
+        : property.total_price,
+  };
+}
+
+// How far apart two values are as a fraction of the larger one, or null
+// when either is unknown
+function relativeDifference(
+  a: number | undefined | null,
+  b: number | undefined | null
+): number | null {
+  if (typeof a !== "number" || typeof b !== "number") return null;
+  const larger = Math.max(Math.abs(a), Math.abs(b));
+  return larger === 0 ? 0 : Math.abs(a - b) / larger;
+}
+
+function known<T>(a: T | undefined | null, b: T | undefined | null): boolean {
+  return a !== undefined && a !== null && b !== undefined && b !== null;
+}
+
+function scoreCandidates(a: MatchCandidate, b: MatchCandidate): number {
+  const first = a.property;
+  const second = b.property;
+
+  // Anything known on both sides that disagrees rules the pair out
+  if ((first.listing_type ?? "sale") !== (second.listing_type ?? "sale")) {
+    return 0;
+  }
+  if (first.suburb.toLowerCase() !== second.suburb.toLowerCase()) return 0;
+  for (const field of ["property_type", "bedrooms", "bathrooms"] as const) {
+    if (known(first[field], second[field]) && first[field] !== second[field]) {
+      return 0;
+    }
+  }
+  const floorSizeDifference = relativeDifference(
+    first.floor_size_sqm,
+    second.floor_size_sqm
+  );
+  if (
+    floorSizeDifference !== null &&
+    floorSizeDifference > FLOOR_SIZE_TOLERANCE
+  ) {
+    return 0;
+  }
+  const priceDifference = relativeDifference(a.price, b.price);
+  if (priceDifference !== null && priceDifference > PRICE_TOLERANCE) {
+    return 0;
+  }
+
+  // Units in a complex share a floor plan and often a price, so the
+  // location has to match as well
+  let addressScore = 0;
+  if (a.address !== null && b.address !== null) {
+    if (a.address === b.address) {
+      addressScore = 1;
+    } else if (
+      a.address.endsWith(` ${b.address}`) ||
+      b.address.endsWith(` ${a.address}`)
+    ) {
+      // Same street address, one with a unit number in front
+      addressScore = 0.5;
+    }
+  }
+  const estateMatches = a.estate !== null && a.estate === b.estate;
+  if (addressScore === 0 && !estateMatches) {
+    return 0;
+  }
+
+  let score =
+    MATCH_WEIGHTS.address * addressScore +
+    (estateMatches ? MATCH_WEIGHTS.estate : 0);
+  if (floorSizeDifference !== null) {
+    // Full weight when (nearly) equal, half at the edge of the tolerance
+    score +=
+      MATCH_WEIGHTS.floorSize *
+      (floorSizeDifference <= 0.01
+        ? 1
+        : 1 - floorSizeDifference / FLOOR_SIZE_TOLERANCE / 2);
+  }
+  if (known(first.bedrooms, second.bedrooms)) {
+    score +=
+      MATCH_WEIGHTS.rooms *
+      (known(first.bathrooms, second.bathrooms) ? 1 : 0.5);
+  }
+  if (priceDifference !== null) {
+    score += MATCH_WEIGHTS.price * (1 - priceDifference / PRICE_TOLERANCE);
+  }
+
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * How likely two listings are to be the same physical property, from 0 to
+ * 1. Listings that disagree on anything both give (type, bedrooms,
+ * bathrooms, floor size or price beyond a small tolerance) score 0, as do
+ * listings whose street address and complex both differ.
+ */
+export function scoreDuplicate(a: Property, b: Property): number {
+  return scoreCandidates(toCandidate(a), toCandidate(b));
+}
+
+/**
+ * Group listings into clusters of likely duplicates: pairs scoring at least
+ * `minConfidence` are joined, strongest first. Confirmed clusters keep their
+ * members and canonical listing and are never merged with each other, though
+ * new listings can join them; listings split out of a cluster are left
+ * alone. Otherwise the first listing saved is the canonical one. Clusters
+ * come least confident first.
+ */
+export function findDuplicateClusters(
+  properties: Property[],
+  options: { minConfidence?: number } = {}
+): DuplicateCluster[] {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const candidates = properties
+    .filter(
+      (property) =>
+        property.id !== undefined &&
+        // Split out by hand
+        !(property.duplicate_confirmed && !property.canonical_property_id)
+    )
+    .map(toCandidate);
+
+  // Union-find over candidate indexes, tracking each cluster's confirmed
+  // canonical listing and weakest link
+  const parent = candidates.map((_, index) => index);
+  const confirmedCanonical = new Map<number, number>();
+  const confidence = new Map<number, number>();
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      index = parent[index] as number;
+    }
+    return index;
+  };
+  const join = (a: number, b: number, score: number): void => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    const canonicalA = confirmedCanonical.get(rootA);
+    const canonicalB = confirmedCanonical.get(rootB);
+    if (canonicalA !== undefined && canonicalB !== undefined) return;
+
+    parent[rootB] = rootA;
+    const canonical = canonicalA ?? canonicalB;
+    if (canonical !== undefined) confirmedCanonical.set(rootA, canonical);
+    confidence.set(
+      rootA,
+      Math.min(
+        score,
+        confidence.get(rootA) ?? score,
+        confidence.get(rootB) ?? score
+      )
+    );
+  };
+
+  // Confirmed clusters first, as stored
+  const confirmedIndexes = new Map<number, number>();
+  candidates.forEach(({ property }, index) => {
+    const canonicalId = property.canonical_property_id;
+    if (!property.duplicate_confirmed || !canonicalId) return;
+    const first = confirmedIndexes.get(canonicalId);
+    if (first === undefined) {
+      confirmedIndexes.set(canonicalId, index);
+      confirmedCanonical.set(index, canonicalId);
+    } else {
+      join(first, index, property.duplicate_confidence ?? 1);
+    }
+  });
+
+  const pairs: { a: number; b: number; score: number }[] = [];
+  for (let a = 0; a < candidates.length; a++) {
+    for (let b = a + 1; b < candidates.length; b++) {
+      const first = candidates[a] as MatchCandidate;
+      const second = candidates[b] as MatchCandidate;
+      if (
+        first.property.duplicate_confirmed &&
+        second.property.duplicate_confirmed
+      ) {
+        continue;
+      }
+      const score = scoreCandidates(first, second);
+      if (score >= minConfidence) {
+        pairs.push({ a, b, score });
+      }
+    }
+  }
+  pairs.sort((x, y) => y.score - x.score);
+  for (const { a, b, score } of pairs) {
+    join(a, b, score);
+  }
+
+  const groups = new Map<number, Property[]>();
+  candidates.forEach(({ property }, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), property]);
+  });
+
+  const clusters: DuplicateCluster[] = [];
+  for (const [root, members] of groups) {
+    if (members.length < 2) continue;
+    const canonicalId =
+      confirmedCanonical.get(root) ??
+      Math.min(...members.map((member) => member.id as number));
+    clusters.push({
+      canonical_property_id: canonicalId,
+      confidence: confidence.get(root) ?? 1,
+      confirmed: members.every((member) => member.duplicate_confirmed),
+      members: [...members].sort(
+        (x, y) =>
+          Number(y.id === canonicalId) - Number(x.id === canonicalId) ||
+          (x.id as number) - (y.id as number)
+      ),
+    });
+  }
+
+  return clusters.sort(
+    (x, y) =>
+      x.confidence - y.confidence ||
+      x.canonical_property_id - y.canonical_property_id
+  );
+}
+
+/**
+ * Detect the duplicate clusters in a suburb and store them as each member's
+ * `canonical_property_id`, replacing the previous detection for the listings
+ * looked at.
+ */
+export async function updateDuplicateClusters(
+  suburb: string,
+  options: { minConfidence?: number } = {}
+): Promise<DuplicateCluster[]> {
+  const candidates = await getDuplicateCandidates(suburb);
+  const clusters = findDuplicateClusters(candidates, options);
+  await saveDuplicateClusters(
+    candidates.map((property) => property.id as number),
+    clusters
+  );
+  return clusters;
+}
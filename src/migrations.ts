@@ -0,0 +1,200 @@
+import fs from "fs";
+import path from "path";
+import type { PoolClient, QueryResult } from "pg";
+import { withTransaction } from "./database";
+import type { Migration, MigrationStatus } from "./types";
+
+const MIGRATIONS_DIR = path.join(__dirname, "..", "migrations");
+const DOWN_MIGRATIONS_DIR = path.join(MIGRATIONS_DIR, "down");
+
+// Arbitrary key so concurrent runners queue instead of applying twice
+const MIGRATION_LOCK_KEY = 24_001;
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+/**
+ * Numbered migrations in `migrations/`, in version order. A migration can be
+ * rolled back when a file of the same name exists in `migrations/down/`.
+ */
+export function loadMigrations(): Migration[] {
+  const files = fs.readdirSync(MIGRATIONS_DIR);
+
+  return files
+    .map((file) => {
+      const match = file.match(MIGRATION_FILE_PATTERN);
+      if (!match?.[1] || !match[2]) return null;
+
+      const downPath = path.join(DOWN_MIGRATIONS_DIR, file);
+      const migration: Migration = {
+        version: match[1],
+        name: match[2],
+        upPath: path.join(MIGRATIONS_DIR, file),
+      };
+      if (fs.existsSync(downPath)) {
+        migration.downPath = downPath;
+      }
+      return migration;
+    })
+    .filter((migration): migration is Migration => migration !== null)
+    .sort((a, b) => parseInt(a.version, 10) - parseInt(b.version, 10));
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(20) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+}
+
+async function getAppliedMigrations(
+  client: PoolClient
+): Promise<Map<string, Date>> {
+  await ensureMigrationsTable(client);
+  const result: QueryResult<{ version: string; applied_at: Date }> =
+    await client.query("SELECT version, applied_at FROM schema_migrations;");
+  return new Map(result.rows.map((row) => [row.version, row.applied_at]));
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+  const applied = await withTransaction(getAppliedMigrations);
+
+  return migrations.map((migration) => {
+    const appliedAt = applied.get(migration.version);
+    return appliedAt
+      ? { ...migration, applied: true, appliedAt }
+      : { ...migration, applied: false };
+  });
+}
+
+/**
+ * The numeric version of `targetVersion`, which must name a known migration
+ * ("7" and "007" both name 007_...).
+ */
+function parseTargetVersion(
+  targetVersion: string,
+  migrations: Migration[]
+): number {
+  const version = /^\d+$/.test(targetVersion.trim())
+    ? parseInt(targetVersion, 10)
+    : NaN;
+  if (
+    !migrations.some((migration) => parseInt(migration.version, 10) === version)
+  ) {
+    throw new Error(
+      `Unknown migration version "${targetVersion}". Available: ${migrations
+        .map((migration) => migration.version)
+        .join(", ")}`
+    );
+  }
+  return version;
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction, up to and
+ * including `targetVersion` when given. Returns the migrations applied.
+ */
+export async function migrateUp(targetVersion?: string): Promise<Migration[]> {
+  const appliedNow: Migration[] = [];
+  const migrations = loadMigrations();
+  // Checked before anything is applied
+  const target =
+    targetVersion !== undefined
+      ? parseTargetVersion(targetVersion, migrations)
+      : undefined;
+
+  for (const migration of migrations) {
+    if (target !== undefined && parseInt(migration.version, 10) > target) {
+      break;
+    }
+
+    const wasApplied = await withTransaction(async (client) => {
+      await client.query("SELECT pg_advisory_xact_lock($1);", [
+        MIGRATION_LOCK_KEY,
+      ]);
+      const applied = await getAppliedMigrations(client);
+      if (applied.has(migration.version)) return false;
+
+      const sql = fs.readFileSync(migration.upPath, "utf8");
+      await client.query(sql);
+      await client.query(
+        "INSERT INTO schema_migrations (version, name) VALUES ($1, $2);",
+        [migration.version, migration.name]
+      );
+      return true;
+    });
+
+    if (wasApplied) {
+      console.log(`  ⬆️  Applied ${migration.version}_${migration.name}`);
+      appliedNow.push(migration);
+    }
+  }
+
+  return appliedNow;
+}
+
+/**
+ * Roll back the `steps` most recently applied migrations using their down
+ * scripts. Stops with an error at the first migration without one.
+ */
+export async function migrateDown(steps: number = 1): Promise<Migration[]> {
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error(`--steps must be a positive whole number, got ${steps}`);
+  }
+  const rolledBack: Migration[] = [];
+  const migrations = loadMigrations();
+
+  for (let i = 0; i < steps; i++) {
+    const migration = await withTransaction(async (client) => {
+      await client.query("SELECT pg_advisory_xact_lock($1);", [
+        MIGRATION_LOCK_KEY,
+      ]);
+      const applied = await getAppliedMigrations(client);
+      const latest = [...migrations]
+        .reverse()
+        .find((candidate) => applied.has(candidate.version));
+      if (!latest) return null;
+
+      if (!latest.downPath) {
+        throw new Error(
+          `Migration ${latest.version}_${latest.name} has no down script`
+        );
+      }
+
+      const sql = fs.readFileSync(latest.downPath, "utf8");
+      await client.query(sql);
+      await client.query("DELETE FROM schema_migrations WHERE version = $1;", [
+        latest.version,
+      ]);
+      return latest;
+    });
+
+    if (!migration) break;
+    console.log(`  ⬇️  Rolled back ${migration.version}_${migration.name}`);
+    rolledBack.push(migration);
+  }
+
+  return rolledBack;
+}
+
+/**
+ * Throw when migrations are pending, so commands that write data never run
+ * against a schema older than the code expects.
+ */
+export async function assertSchemaUpToDate(): Promise<void> {
+  const pending = (await getMigrationStatus()).filter(
+    (migration) => !migration.applied
+  );
+
+  if (pending.length > 0) {
+    const names = pending
+      .map((migration) => `${migration.version}_${migration.name}`)
+      .join(", ");
+    throw new Error(
+      `Database schema is out of date, ${pending.length} pending migration(s): ${names}. Run "npm start -- migrate up" first.`
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import type {
+  ListingType,
+  Property,
+  PropertyStatus,
+  PropertyType,
+} from "./types";
+
+export const LISTING_TYPES: ListingType[] = ["sale", "rent"];
+
+export const PROPERTY_TYPES: PropertyType[] = [
+  "house",
+  "apartment",
+  "townhouse",
+  "cluster",
+  "duplex",
+  "vacant_land",
+  "farm",
+  "commercial",
+  "industrial",
+  "other",
+];
+
+// First match wins, so more specific wording comes before the words it
+// contains ("townhouse" before "house", "farm" before "land")
+const PROPERTY_TYPE_PATTERNS: [RegExp, PropertyType][] = [
+  [/farm|smallholding|agricultural/i, "farm"],
+  [/industrial|warehouse|factory/i, "industrial"],
+  [/commercial|office|retail|shop/i, "commercial"],
+  [/vacant|\bland\b|\bplot\b|\bstand\b|\berf\b/i, "vacant_land"],
+  [/town\s*house/i, "townhouse"],
+  [/cluster/i, "cluster"],
+  [/duplex|simplex/i, "duplex"],
+  [/apartment|\bflat\b|penthouse|studio|loft/i, "apartment"],
+  [/house|home/i, "house"],
+];
+
+/**
+ * Map a listing's property type text (e.g. "3 Bedroom Townhouse") to a
+ * canonical type. Unrecognised text maps to "other".
+ */
+export function normalisePropertyType(raw: string): PropertyType {
+  const match = PROPERTY_TYPE_PATTERNS.find(([pattern]) => pattern.test(raw));
+  return match ? match[1] : "other";
+}
+
+/**
+ * Whether a listing URL is for a sale or a rental, from its first path
+ * segment (`/for-sale/...` or `/to-rent/...`).
+ */
+export function listingTypeFromUrl(url: string): ListingType {
+  return /\/to-rent\//i.test(url) ? "rent" : "sale";
+}
+
+/** Whether text names a property type we recognise */
+export function isPropertyTypeText(text: string): boolean {
+  return normalisePropertyType(text) !== "other";
+}
+
+/**
+ * Derive a status from a listing's status badge. Listings without a "sold"
+ * or "under offer" badge are on the market with no offer.
+ */
+export function deriveStatus(raw: string | undefined | null): PropertyStatus {
+  const text = (raw ?? "").toLowerCase();
+  // "no offer" / "no_offer" (e.g. status_raw seeded from status) say so
+  if (/\bno[\s_]offer\b/.test(text)) return "no_offer";
+  if (text.includes("sold")) return "sold";
+  if (/under[\s_]offer/.test(text)) return "under_offer";
+  return "no_offer";
+}
+
+/**
+ * Fill in canonical and derived fields from what the parser extracted: the
+ * property type enum (the raw text stays in `property_type_raw`), the status
+ * (from `status_raw`) and `price_per_sqm` when the listing did not show it.
+ */
+export function normaliseProperty<T extends Property>(property: T): T {
+  const normalised: T = { ...property };
+
+  const rawType = property.property_type_raw?.trim();
+  if (rawType) {
+    normalised.property_type = normalisePropertyType(rawType);
+  } else {
+    delete normalised.property_type;
+  }
+
+  normalised.status = deriveStatus(property.status_raw);
+
+  const { total_price, floor_size_sqm } = property;
+  if (
+    (property.price_per_sqm === undefined || property.price_per_sqm === null) &&
+    typeof total_price === "number" &&
+    typeof floor_size_sqm === "number" &&
+    floor_size_sqm > 0
+  ) {
+    normalised.price_per_sqm =
+      Math.round((total_price / floor_size_sqm) * 100) / 100;
+  }
+
+  return normalised;
+}
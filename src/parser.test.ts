@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import { test } from "node:test";
+import path from "path";
+import { logger } from "./logger";
+import {
+  parseDetailHtml,
+  parseListingHtml,
+  parseListingHtmlDir,
+  parseListingSummary,
+} from "./parser";
+import { validateProperty } from "./validation";
+
+// Saved Property24 pages; the parser runs against them without a browser
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+const LISTING_PAGES_DIR = path.join(FIXTURES_DIR, "listing-pages");
+
+const LISTING_URL =
+  "https://www.property24.com/for-sale/parkhurst/johannesburg/gauteng/8";
+
+function readFixture(...segments: string[]): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, ...segments), "utf8");
+}
+
+logger.configure({ verbosity: "quiet" });
+
+test("parseListingHtml extracts every card on a saved listing page", () => {
+  const html = readFixture("listing-pages", "parkhurst-p1.html");
+  const properties = parseListingHtml(html, "Parkhurst").map(
+    ({ raw_html, ...property }) => {
+      assert.match(raw_html ?? "", /^<div class="p24_regularTile">/);
+      return property;
+    }
+  );
+
+  assert.deepEqual(properties, [
+    {
+      property_url: `${LISTING_URL}/114567890`,
+      listing_type: "sale",
+      street_address: "14 Second Avenue",
+      estate_complex: "Parkhurst Mews",
+      suburb: "Parkhurst",
+      city: "Johannesburg",
+      floor_size_sqm: 180,
+      total_price: 2450000,
+      price_per_sqm: 13611.11,
+      property_type_raw: "House",
+      property_type: "house",
+      bedrooms: 3,
+      bathrooms: 2,
+      status: "no_offer",
+      listing_date: new Date("2025-01-06T00:00:00.000Z"),
+    },
+    {
+      property_url: `${LISTING_URL}/114567891`,
+      listing_type: "sale",
+      street_address: "Unit 4",
+      estate_complex: "The Palms",
+      suburb: "Parkhurst",
+      city: "Johannesburg",
+      postal_code: "2193",
+      floor_size_sqm: 85,
+      total_price: 1650000,
+      price_per_sqm: 19411.76,
+      property_type_raw: "Apartment",
+      property_type: "apartment",
+      bedrooms: 2,
+      bathrooms: 1,
+      status_raw: "Under Offer",
+      status: "under_offer",
+    },
+    {
+      property_url: `${LISTING_URL}/114567892`,
+      listing_type: "sale",
+      street_address: "12 Fourth Avenue",
+      estate_complex: "Parkhurst",
+      suburb: "Johannesburg",
+      total_price: 3100000,
+      property_type_raw: "House",
+      property_type: "house",
+      bedrooms: 4,
+      bathrooms: 3,
+      status: "no_offer",
+    },
+  ]);
+});
+
+test("parseListingSummary reads the result count", () => {
+  const html = readFixture("listing-pages", "parkhurst-p1.html");
+
+  assert.deepEqual(parseListingSummary(html, 20), {
+    totalResults: 3,
+    pageCount: 1,
+  });
+});
+
+test("validateProperty rejects a card whose suburb is the city", () => {
+  const html = readFixture("listing-pages", "parkhurst-p1.html");
+  const reasons = parseListingHtml(html, "Parkhurst").map(
+    ({ raw_html, ...property }) =>
+      validateProperty(property, "Parkhurst").map((issue) => issue.reason)
+  );
+
+  assert.deepEqual(reasons, [[], [], ["suburb_mismatch"]]);
+});
+
+test("parseListingHtmlDir parses every saved page in a directory", async () => {
+  const result = await parseListingHtmlDir(LISTING_PAGES_DIR, "Parkhurst");
+
+  assert.equal(result.success, true);
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.propertiesScraped, 3);
+  assert.deepEqual(
+    result.properties?.map((property) => property.property_url),
+    [
+      `${LISTING_URL}/114567890`,
+      `${LISTING_URL}/114567891`,
+      `${LISTING_URL}/114567892`,
+    ]
+  );
+});
+
+test("parseDetailHtml extracts the overview and features", () => {
+  assert.deepEqual(parseDetailHtml(readFixture("detail-page.html")), {
+    street_address: "Unit 4 The Palms, 22 Fifth Street, Parkhurst, 2193",
+    postal_code: "2193",
+    floor_size_sqm: 87,
+    rates_and_taxes: 1250,
+    levies: 2100,
+    parking_spaces: 2,
+    pets_allowed: true,
+    listing_date: new Date("2024-10-10T00:00:00.000Z"),
+    description:
+      "Sunny north-facing apartment in a secure complex, walking distance from Fourth Avenue.",
+  });
+});
@@ -0,0 +1,622 @@
+import * as cheerio from "cheerio";
+import fs from "fs";
+import path from "path";
+import { logger } from "./logger";
+import {
+  isPropertyTypeText,
+  listingTypeFromUrl,
+  normaliseProperty,
+} from "./normalise";
+import { loadSelectorProfile } from "./selectors";
+import type {
+  Property,
+  PropertyDetails,
+  ScrapedProperty,
+  ScraperEventListener,
+  ScraperResult,
+  SelectorProfile,
+} from "./types";
+
+const BASE_URL = "https://www.property24.com";
+
+/**
+ * Parse the property cards out of a Property24 listing (search results) page.
+ * This is the same extraction the live scraper runs against `page.content()`,
+ * so it can be used on saved HTML without a browser.
+ */
+export function parseListingHtml(
+  htmlContent: string,
+  fallbackSuburb: string,
+  selectors: SelectorProfile = loadSelectorProfile(),
+  onEvent: ScraperEventListener = (event) => logger.event(event)
+): ScrapedProperty[] {
+  const properties: ScrapedProperty[] = [];
+  const listing = selectors.listing;
+
+  const $ = cheerio.load(htmlContent);
+
+  // Try multiple selectors as Property24 may have different layouts
+  const propertyElements = $(listing.cards.join(", "));
+
+  if (propertyElements.length === 0) {
+    onEvent({
+      type: "warning",
+      suburb: fallbackSuburb,
+      message: "No property elements found, page structure may have changed",
+    });
+    return [];
+  }
+
+  propertyElements.each((_index: any, element: any) => {
+    const $element = $(element);
+
+    try {
+      // Extract property listing URL (should start with /for-sale/ or /to-rent/)
+      // Look for links within the property card
+      let propertyUrl: string | undefined;
+
+      // First, try to find a link that matches the listing URL pattern
+      $element.find(listing.link).each((_i: any, el: any) => {
+        const href = $(el).attr("href");
+        if (href && !propertyUrl) {
+          propertyUrl = href;
+        }
+      });
+
+      // If not found, try generic title/header links
+      if (!propertyUrl) {
+        const titleEl = $element.find(listing.fallbackLink);
+        const linkEl = titleEl.find("a").length
+          ? titleEl.find("a")
+          : titleEl.closest("a");
+        propertyUrl = linkEl.attr("href");
+      }
+
+      if (!propertyUrl) {
+        return; // Skip if no URL found
+      }
+
+      const fullUrl = propertyUrl.startsWith("http")
+        ? propertyUrl
+        : `${BASE_URL}${propertyUrl}`;
+      const listingType = listingTypeFromUrl(fullUrl);
+
+      // Extract address components
+      const addressText = $element.find(listing.address).text();
+      const addressParts = parseAddress(addressText);
+
+      // Extract price information; a rental card shows the monthly rent
+      const priceText = $element.find(listing.price).first().text();
+      const { totalPrice, pricePerSqm } = parsePrice(priceText);
+      const isRental = listingType === "rent";
+
+      // Extract property type text; normaliseProperty maps it to the enum
+      const propertyTypeEl = $element
+        .find(listing.propertyType)
+        .filter((_: any, el: any) => isPropertyTypeText($(el).text()))
+        .first();
+      const propertyTypeRaw =
+        propertyTypeEl.text().replace(/\s+/g, " ").trim() || undefined;
+
+      // Extract bedrooms and bathrooms
+      const features = $element.find(listing.features).text();
+      const bedrooms = extractNumber(features, /(\d+)\s*(?:bed|bedroom)/i);
+      const bathrooms = extractNumber(features, /(\d+)\s*(?:bath|bathroom)/i);
+
+      // Extract floor size
+      const floorSizeMatch = features.match(/(\d+)\s*(?:m²|sqm|m2)/i);
+      const floorSizeSqm = floorSizeMatch
+        ? parseFloat(floorSizeMatch[1] ?? "0")
+        : undefined;
+
+      // Extract status
+      const statusEl = $element
+        .find(listing.status)
+        .filter((_: any, el: any) => {
+          const text = $(el).text().toLowerCase();
+          return (
+            text.includes("sold") ||
+            text.includes("offer") ||
+            text.includes("listed")
+          );
+        })
+        .first();
+      const statusRaw =
+        statusEl.text().replace(/\s+/g, " ").trim() || undefined;
+
+      // Extract listing date
+      const listingDateText =
+        $element.find(listing.listingDate).attr("datetime") ||
+        $element.find(listing.listedText).text();
+      const listingDate = parseDate(listingDateText);
+
+      // Rental extras some cards show, e.g. "Furnished", "Available 1 Nov 2025"
+      const cardText = $element.text().replace(/\s+/g, " ");
+      const furnishedMatch = isRental
+        ? cardText.match(/\b(un)?furnished\b/i)
+        : null;
+      const furnished = furnishedMatch ? !furnishedMatch[1] : undefined;
+      const availableFrom = isRental
+        ? parseDate(cardText.match(/available\s+(?:from\s+)?([^,;|]+)/i)?.[1])
+        : undefined;
+
+      const property: ScrapedProperty = {
+        property_url: fullUrl,
+        listing_type: listingType,
+        ...(addressParts.street && { street_address: addressParts.street }),
+        ...(addressParts.estate && { estate_complex: addressParts.estate }),
+        suburb: addressParts.suburb || fallbackSuburb,
+        ...(addressParts.city && { city: addressParts.city }),
+        ...(addressParts.postalCode && {
+          postal_code: addressParts.postalCode,
+        }),
+        ...(floorSizeSqm !== undefined && { floor_size_sqm: floorSizeSqm }),
+        ...(isRental
+          ? totalPrice !== undefined && { monthly_rent: totalPrice }
+          : {
+              ...(totalPrice !== undefined && { total_price: totalPrice }),
+              ...(pricePerSqm !== undefined && { price_per_sqm: pricePerSqm }),
+            }),
+        ...(availableFrom && { available_from: availableFrom }),
+        ...(furnished !== undefined && { furnished }),
+        ...(propertyTypeRaw && { property_type_raw: propertyTypeRaw }),
+        ...(bedrooms !== undefined && { bedrooms }),
+        ...(bathrooms !== undefined && { bathrooms }),
+        ...(statusRaw && { status_raw: statusRaw }),
+        ...(listingDate && { listing_date: listingDate }),
+        raw_html: $.html(element),
+      };
+
+      properties.push(normaliseProperty(property));
+    } catch (error) {
+      onEvent({
+        type: "card-parse-failed",
+        suburb: fallbackSuburb,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return properties;
+}
+
+/**
+ * Read the result count and page count from a listing page header and pager.
+ * When the pager is missing the page count is derived from the result count.
+ */
+export function parseListingSummary(
+  htmlContent: string,
+  pageSize: number,
+  selectors: SelectorProfile = loadSelectorProfile()
+): { totalResults?: number; pageCount?: number } {
+  const $ = cheerio.load(htmlContent);
+  const summary: { totalResults?: number; pageCount?: number } = {};
+
+  // e.g. "1 - 20 of 245 results" / "245 Properties for sale"
+  const headerText = $(selectors.listing.resultsCount)
+    .text()
+    .replace(/\s+/g, " ");
+  const totalMatch =
+    headerText.match(/of\s+(\d[\d\s,]*\d|\d)/i) ??
+    headerText.match(/(\d[\d\s,]*\d|\d)\s*(?:results|properties|listings)/i);
+  const totalResults = totalMatch?.[1]
+    ? parseInt(totalMatch[1].replace(/[\s,]/g, ""), 10)
+    : NaN;
+  if (!isNaN(totalResults)) {
+    summary.totalResults = totalResults;
+  }
+
+  // Highest page number linked from the pager
+  let pageCount = 0;
+  $(selectors.listing.pager).each((_: any, el: any) => {
+    const value = $(el).attr("data-pagenumber") ?? $(el).text().trim();
+    const pageNumber = parseInt(value, 10);
+    if (!isNaN(pageNumber) && pageNumber > pageCount) {
+      pageCount = pageNumber;
+    }
+  });
+
+  if (pageCount > 0) {
+    summary.pageCount = pageCount;
+  } else if (summary.totalResults !== undefined && pageSize > 0) {
+    summary.pageCount = Math.max(1, Math.ceil(summary.totalResults / pageSize));
+  }
+
+  return summary;
+}
+
+/**
+ * The text of each suggestion the homepage search box offers, in page order
+ * (so indexes line up with the live elements), e.g. "Parkhurst, Johannesburg".
+ */
+export function parseSearchSuggestions(
+  htmlContent: string,
+  selector: string
+): string[] {
+  const $ = cheerio.load(htmlContent);
+  return $(selector)
+    .map((_: any, el: any) => $(el).text().replace(/\s+/g, " ").trim())
+    .get();
+}
+
+/**
+ * Parse every saved listing page (`*.html` / `*.htm`) in a directory, in file
+ * name order, and return the same result shape as a live scrape.
+ */
+export async function parseListingHtmlDir(
+  dir: string,
+  suburb: string,
+  selectors: SelectorProfile = loadSelectorProfile()
+): Promise<ScraperResult> {
+  const errors: string[] = [];
+  const properties: ScrapedProperty[] = [];
+
+  try {
+    const files = (await fs.promises.readdir(dir))
+      .filter((file) => /\.html?$/i.test(file))
+      .sort();
+
+    if (files.length === 0) {
+      throw new Error(`No .html files found in ${dir}`);
+    }
+
+    for (const file of files) {
+      logger.info(
+        `Extracting properties from ${file}...`,
+        { file },
+        { icon: "📄" }
+      );
+      try {
+        const html = await fs.promises.readFile(path.join(dir, file), "utf8");
+        const pageProperties = parseListingHtml(html, suburb, selectors);
+        properties.push(...pageProperties);
+        logger.info(
+          `Found ${pageProperties.length} properties in ${file}`,
+          { file, count: pageProperties.length },
+          { indented: true }
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        errors.push(`${file}: ${errorMessage}`);
+        logger.warn(`Failed to parse ${file}: ${errorMessage}`, {
+          file,
+          error: errorMessage,
+        });
+      }
+    }
+
+    logger.info(
+      `Found ${properties.length} properties`,
+      { count: properties.length },
+      { icon: "✓" }
+    );
+
+    return {
+      success: true,
+      propertiesScraped: properties.length,
+      propertiesSaved: 0,
+      errors,
+      message: `Successfully parsed ${properties.length} properties from ${files.length} saved pages`,
+      properties,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    errors.push(errorMessage);
+    logger.error(
+      `Parsing error: ${errorMessage}`,
+      { error: errorMessage },
+      { icon: "✗" }
+    );
+
+    return {
+      success: false,
+      propertiesScraped: 0,
+      propertiesSaved: 0,
+      errors,
+      message: `Failed to parse saved pages: ${errorMessage}`,
+      properties: [],
+    };
+  }
+}
+
+/**
+ * Parse a Property24 listing detail page. The page lists most facts as
+ * label/value rows (property overview) and feature counts (parking etc.),
+ * so the labels are collected first and then mapped onto `PropertyDetails`.
+ */
+export function parseDetailHtml(
+  htmlContent: string,
+  selectors: SelectorProfile = loadSelectorProfile()
+): PropertyDetails {
+  const detail = selectors.detail;
+  const $ = cheerio.load(htmlContent);
+  const facts = new Map<string, string>();
+
+  const addFact = (label: string, value: string) => {
+    const key = label.replace(/:$/, "").trim().toLowerCase();
+    const text = value.replace(/\s+/g, " ").trim();
+    if (key && text && !facts.has(key)) {
+      facts.set(key, text);
+    }
+  };
+
+  // Property overview rows: "Listing Date" / "10 October 2024"
+  $(detail.overviewRow).each((_: any, row: any) => {
+    const $row = $(row);
+    addFact(
+      $row.find(detail.overviewKey).text(),
+      $row.find(detail.overviewValue).text()
+    );
+  });
+
+  // Key features: "Parking:" / "2"
+  $(detail.feature).each((_: any, feature: any) => {
+    const $feature = $(feature);
+    addFact(
+      $feature.find("span").first().text(),
+      $feature.find(detail.featureAmount).text() || "yes"
+    );
+  });
+
+  // Generic definition lists used by some layouts
+  $("dt").each((_: any, term: any) => {
+    addFact($(term).text(), $(term).next("dd").text());
+  });
+
+  const details: PropertyDetails = {};
+
+  const streetAddress = facts.get("street address");
+  if (streetAddress) {
+    details.street_address = streetAddress;
+    const postalCodeMatch = streetAddress.match(/\b(\d{4})\s*$/);
+    if (postalCodeMatch?.[1]) {
+      details.postal_code = postalCodeMatch[1];
+    }
+  }
+
+  const floorSize = extractNumber(facts.get("floor size") ?? "", /([\d\s]+)/);
+  if (floorSize !== undefined) details.floor_size_sqm = floorSize;
+
+  const erfSize = extractNumber(facts.get("erf size") ?? "", /([\d\s]+)/);
+  if (erfSize !== undefined) details.erf_size_sqm = erfSize;
+
+  const rates = parseAmount(facts.get("rates and taxes") ?? "");
+  if (rates !== undefined) details.rates_and_taxes = rates;
+
+  const levies = parseAmount(facts.get("levies") ?? "");
+  if (levies !== undefined) details.levies = levies;
+
+  const parking =
+    extractNumber(facts.get("parking") ?? "", /(\d+)/) ??
+    extractNumber(facts.get("garages") ?? "", /(\d+)/);
+  if (parking !== undefined) details.parking_spaces = parking;
+
+  const pets = facts.get("pets allowed");
+  if (pets) details.pets_allowed = /^(yes|allowed|true)/i.test(pets);
+
+  const listingDate = parseDate(facts.get("listing date"));
+  if (listingDate) details.listing_date = listingDate;
+
+  const deposit = parseAmount(facts.get("deposit") ?? "");
+  if (deposit !== undefined) details.deposit = deposit;
+
+  const availableFrom = parseDate(
+    facts.get("available from") ??
+      facts.get("date available") ??
+      facts.get("occupation date")
+  );
+  if (availableFrom) details.available_from = availableFrom;
+
+  const furnished = parseFurnished(facts.get("furnished") ?? "");
+  if (furnished !== undefined) details.furnished = furnished;
+
+  const description = $(detail.description)
+    .first()
+    .text()
+    .replace(/\s+/g, " ")
+    .trim();
+  if (description) details.description = description;
+
+  return details;
+}
+
+export interface SelectorCheckReport {
+  profile: string;
+  pageType: "listing" | "detail";
+  selectors: { key: string; selector: string; matches: number }[];
+  cards?: number;
+  fields: { field: string; extracted: number }[];
+}
+
+/**
+ * Run a profile against a saved page and report how many elements each
+ * selector matched, and how many cards and fields the parser could extract.
+ */
+export function checkSelectors(
+  htmlContent: string,
+  profile: SelectorProfile,
+  pageType: "listing" | "detail"
+): SelectorCheckReport {
+  const $ = cheerio.load(htmlContent);
+  const count = (selector: string): number => {
+    try {
+      return $(selector).length;
+    } catch {
+      // invalid CSS counts as no match rather than aborting the report
+      return 0;
+    }
+  };
+
+  const selectors: SelectorCheckReport["selectors"] = [];
+  const addSection = (section: "listing" | "detail" | "search") => {
+    for (const [key, value] of Object.entries(profile[section])) {
+      const list = Array.isArray(value) ? value : [value];
+      list.forEach((selector) =>
+        selectors.push({
+          key: `${section}.${key}`,
+          selector,
+          matches: count(selector),
+        })
+      );
+    }
+  };
+
+  if (pageType === "listing") {
+    addSection("listing");
+    addSection("search");
+
+    const properties = parseListingHtml(htmlContent, "", profile);
+    const fields: (keyof Property)[] = [
+      "property_url",
+      "street_address",
+      "total_price",
+      "price_per_sqm",
+      "monthly_rent",
+      "property_type_raw",
+      "bedrooms",
+      "bathrooms",
+      "floor_size_sqm",
+      "status_raw",
+      "listing_date",
+    ];
+
+    return {
+      profile: profile.name,
+      pageType,
+      selectors,
+      cards: properties.length,
+      fields: fields.map((field) => ({
+        field,
+        extracted: properties.filter(
+          (property) => property[field] !== undefined && property[field] !== ""
+        ).length,
+      })),
+    };
+  }
+
+  addSection("detail");
+
+  const details = parseDetailHtml(htmlContent, profile);
+  const fields: (keyof PropertyDetails)[] = [
+    "street_address",
+    "postal_code",
+    "floor_size_sqm",
+    "erf_size_sqm",
+    "rates_and_taxes",
+    "levies",
+    "parking_spaces",
+    "pets_allowed",
+    "description",
+    "listing_date",
+    "deposit",
+    "available_from",
+    "furnished",
+  ];
+
+  return {
+    profile: profile.name,
+    pageType,
+    selectors,
+    fields: fields.map((field) => ({
+      field,
+      extracted: details[field] !== undefined ? 1 : 0,
+    })),
+  };
+}
+
+function parseAddress(addressText: string): {
+  street?: string;
+  estate?: string;
+  suburb?: string;
+  city?: string;
+  postalCode?: string;
+} {
+  const parts = addressText.split(",").map((p) => p.trim());
+
+  return {
+    street: parts[0] || undefined,
+    estate: parts[1] || undefined,
+    suburb: parts[2] || undefined,
+    city: parts[3] || undefined,
+    postalCode: parts[4] || undefined,
+  } as {
+    street?: string;
+    estate?: string;
+    suburb?: string;
+    city?: string;
+    postalCode?: string;
+  };
+}
+
+function parsePrice(priceText: string): {
+  totalPrice: number | undefined;
+  pricePerSqm: number | undefined;
+} {
+  const totalPriceMatch = priceText.match(/R[\s,\d.]+/);
+  const totalPrice = totalPriceMatch
+    ? parseFloat(totalPriceMatch[0].replace(/[R\s,]/g, ""))
+    : undefined;
+
+  const pricePerSqmMatch = priceText.match(/R[\s,\d.]+\s*per\s*m²/i);
+  const pricePerSqm = pricePerSqmMatch
+    ? parseFloat(pricePerSqmMatch[0].replace(/[R\s,\/m²]/gi, ""))
+    : undefined;
+
+  return { totalPrice: totalPrice, pricePerSqm: pricePerSqm };
+}
+
+/**
+ * A detail page "Furnished" value: "Yes" / "Semi-furnished" → true,
+ * "No" / "Unfurnished" → false.
+ */
+function parseFurnished(text: string): boolean | undefined {
+  if (/^\s*no\b|unfurnished/i.test(text)) return false;
+  if (/^\s*yes\b|furnished/i.test(text)) return true;
+  return undefined;
+}
+
+function parseAmount(text: string): number | undefined {
+  const match = text.match(/R\s*([\d\s,.]+)/);
+  if (!match?.[1]) return undefined;
+  const amount = parseFloat(match[1].replace(/[\s,]/g, ""));
+  return isNaN(amount) ? undefined : amount;
+}
+
+function extractNumber(text: string, pattern: RegExp): number | undefined {
+  const match = text.match(pattern);
+  if (!match) return undefined;
+  const value = parseInt((match[1] ?? "0").replace(/\s/g, ""), 10);
+  return isNaN(value) ? undefined : value;
+}
+
+function parseDate(dateText: string | undefined): Date | undefined {
+  if (!dateText) return undefined;
+
+  // Try parsing ISO format first
+  if (dateText.includes("T")) {
+    const date = new Date(dateText);
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+
+  // Try common South African date formats
+  const dateMatch = dateText.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
+  if (dateMatch) {
+    return new Date(`${dateMatch[3]}-${dateMatch[2]}-${dateMatch[1]}`);
+  }
+
+  // Try long-form dates as shown on detail pages, e.g. "10 October 2024"
+  const longDateMatch = dateText.match(/(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})/);
+  if (longDateMatch) {
+    const date = new Date(
+      `${longDateMatch[1]} ${longDateMatch[2]} ${longDateMatch[3]} UTC`
+    );
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,72 @@
+import { logger } from "./logger";
+
+export interface RetryPolicy {
+  // Attempts after the first one
+  retries: number;
+  // Delay before the first retry in milliseconds; doubles on each retry
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  attempts: number;
+  delay: number;
+  error: string;
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter for the given retry (1 = first retry): a
+ * random delay between half and all of `baseDelay * 2^(retry - 1)`, capped at
+ * `maxDelay`, so parallel tabs don't retry in lockstep.
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * 2 ** Math.max(0, retry - 1)
+  );
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Run `fn`, retrying failures up to `policy.retries` times with backoff. The
+ * last failure is rethrown with the attempt count and `label` in its message.
+ * `onRetry` is told about each retry before its delay; by default it's logged.
+ */
+export async function withRetry<T>(
+  label: string,
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  onRetry: (retry: RetryAttempt) => void = (retry) =>
+    logger.warn(
+      `${label} failed (attempt ${retry.attempt}/${retry.attempts}): ${
+        retry.error
+      }; retrying in ${(retry.delay / 1000).toFixed(1)}s`
+    )
+): Promise<T> {
+  const attempts = Math.max(0, policy.retries) + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      if (attempt >= attempts) {
+        throw new Error(
+          `${label} failed after ${attempts} attempt${
+            attempts === 1 ? "" : "s"
+          }: ${errorMessage}`
+        );
+      }
+
+      const delay = backoffDelay(attempt, policy);
+      onRetry({ attempt, attempts, delay, error: errorMessage });
+      await sleep(delay);
+    }
+  }
+}
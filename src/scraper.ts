@@ -1,66 +1,215 @@
-import * as cheerio from "cheerio";
 import fs from "fs";
 import path from "path";
 import type { Browser, Page } from "puppeteer";
 import puppeteer from "puppeteer";
-import type { Property, ScraperOptions, ScraperResult } from "./types";
+import {
+  parseDetailHtml,
+  parseListingHtml,
+  parseListingSummary,
+  parseSearchSuggestions,
+} from "./parser";
+import { DEFAULT_ARTIFACTS_DIR } from "./artifacts";
+import { logger } from "./logger";
+import { sleep, withRetry } from "./retry";
+import type { RetryAttempt, RetryPolicy } from "./retry";
+import { loadSelectorProfile } from "./selectors";
+import type {
+  ListingType,
+  PropertyDetails,
+  ScrapedProperty,
+  ScraperEvent,
+  ScraperOptions,
+  ScraperResult,
+  SelectorProfile,
+} from "./types";
 
 const BASE_URL = "https://www.property24.com";
 
-const PROPERTY_CARD_SELECTORS = [
-  '[class="p24_regularTile"]',
-  '[data-test-id="property-card"]',
-  ".property-card",
-  '[class*="property"]',
-  "article",
-];
+// Property24 shows 20 results per page
+const DEFAULT_PAGE_SIZE = 20;
+
+// Safety limit when neither --max-pages nor the page header bounds the run
+const MAX_PAGES = 100;
+
+// Failed pages in a row after which the site is taken to be down
+const MAX_CONSECUTIVE_PAGE_FAILURES = 3;
+
+// Time for the search box to show suggestions after typing a suburb
+const SUGGESTION_DELAY = 5000;
+
+// Responses worth retrying; other errors (404 etc.) won't change on reload
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Build the URL of a result page from a listing URL. Property24 pages are a
+ * `/p<n>` path suffix; page 1 is the bare listing URL.
+ */
+export function buildPageUrl(listingUrl: string, pageNumber: number): string {
+  const url = new URL(listingUrl);
+  const basePath = url.pathname.replace(/\/p\d+\/?$/, "").replace(/\/$/, "");
+  url.pathname = pageNumber > 1 ? `${basePath}/p${pageNumber}` : basePath;
+  return url.toString();
+}
+
+/**
+ * Launch a browser that can be shared between several scraper instances via
+ * `Property24Scraper.init(browser)`.
+ */
+export async function launchBrowser(headless: boolean = true): Promise<Browser> {
+  try {
+    const browser = await puppeteer.launch({
+      headless: headless ? true : false,
+      args: ["--no-sandbox", "--disable-setuid-sandbox"],
+    });
+    logger.info("Browser launched", undefined, { icon: "✓" });
+    return browser;
+  } catch (error) {
+    logger.error(
+      `Failed to launch browser: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      undefined,
+      { icon: "✗" }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Switch a results URL to the for-sale or to-rent listings of the same area,
+ * e.g. /for-sale/sandton/gauteng/109 → /to-rent/sandton/gauteng/109. The
+ * site search lands on the for-sale results.
+ */
+export function listingUrlForMode(url: string, mode: ListingType): string {
+  if (mode === "sale") {
+    return url.replace("/to-rent/", "/for-sale/");
+  }
+  if (url.includes("/to-rent/")) {
+    return url;
+  }
+  if (!url.includes("/for-sale/")) {
+    throw new Error(`Cannot find the to-rent results from ${url}`);
+  }
+  return url.replace("/for-sale/", "/to-rent/");
+}
+
+/**
+ * The suburb search offered several suggestions that fit the name, so one has
+ * to be picked (see `Property24Scraper.resolveSuburb`) rather than guessed.
+ */
+export class AmbiguousSuburbError extends Error {
+  constructor(
+    public readonly suburb: string,
+    public readonly candidates: string[]
+  ) {
+    super(
+      `"${suburb}" matches several suburbs (${candidates.join(
+        "; "
+      )}); run \`suburbs resolve "${suburb}"\` to pick one`
+    );
+    this.name = "AmbiguousSuburbError";
+  }
+}
+
+/**
+ * A results URL that no longer exists, e.g. a saved URL for a suburb
+ * Property24 has since renumbered.
+ */
+class ListingNotFoundError extends Error {
+  constructor(url: string) {
+    super(`HTTP 404 for ${url}`);
+    this.name = "ListingNotFoundError";
+  }
+}
+
+export interface SuburbSearchResult {
+  url: string;
+  // The suggestion that was picked, when the search box offered a list
+  suggestion?: string;
+}
+
+/**
+ * The suggestions worth choosing between: those named exactly `suburb`
+ * ("Parkhurst, Johannesburg" for "parkhurst"), or all of them when none is.
+ */
+function suburbCandidates(suburb: string, suggestions: string[]): string[] {
+  const name = suburb.trim().toLowerCase();
+  const named = suggestions.filter(
+    (text) => text.split(",")[0]?.trim().toLowerCase() === name
+  );
+  return named.length > 0
+    ? named
+    : suggestions.filter((text) => text.length > 0);
+}
 
 export class Property24Scraper {
   private browser: Browser | null = null;
+  private ownsBrowser: boolean = false;
   private options: ScraperOptions;
-  private screenshotCounter: number = 0;
-  private tmpDir: string;
+  private selectors: SelectorProfile;
+  private artifactCounter: number = 0;
+  private artifactsWritten: boolean = false;
+  private pagesVisited: number = 0;
+  private pagesExpected: number | undefined;
+  private totalResults: number | undefined;
+  private reachedLastPage: boolean = false;
+  private nextPageLoadAt: number = 0;
+  private runArtifactDir: string;
 
   constructor(options: ScraperOptions) {
     this.options = {
       headless: true,
       timeout: 30000,
+      retries: 3,
+      retryDelay: 2000,
+      maxRetryDelay: 30000,
+      pageDelay: 1000,
+      selectorTimeout: 10000,
+      artifacts: "on-error",
+      artifactFormat: "both",
       ...options,
     };
-    // Initialize tmp folder with date-time and suburb subfolder for screenshots
+    this.selectors = options.selectors ?? loadSelectorProfile();
+    // Artifact folder with date-time and suburb, created on first write
     const now = new Date();
     const dateTime = now.toISOString().replace(/[:.]/g, "-").slice(0, 19); // YYYY-MM-DDTHH-mm-ss
     const sanitizedSuburb = options.suburb.replace(/[^a-zA-Z0-9-]/g, "-");
     const folderName = `${dateTime}_${sanitizedSuburb}`;
-    this.tmpDir = path.join(process.cwd(), "tmp", "screenshots", folderName);
-    if (!fs.existsSync(this.tmpDir)) {
-      fs.mkdirSync(this.tmpDir, { recursive: true });
-    }
-    console.log(`📸 Screenshots will be saved to: ${this.tmpDir}`);
+    this.runArtifactDir = path.resolve(
+      this.options.artifactsDir ?? DEFAULT_ARTIFACTS_DIR,
+      folderName
+    );
   }
 
-  async init(): Promise<void> {
-    try {
-      const launchHeadless = this.options.headless ?? true;
-      this.browser = await puppeteer.launch({
-        headless: launchHeadless ? true : false,
-        args: ["--no-sandbox", "--disable-setuid-sandbox"],
-      });
-      console.log("✓ Browser launched");
-    } catch (error) {
-      console.error(
-        "✗ Failed to launch browser:",
-        error instanceof Error ? error.message : String(error)
-      );
-      throw error;
+  /**
+   * Folder holding this scraper's screenshots and page HTML, or undefined
+   * while nothing has been written to it.
+   */
+  get artifactDir(): string | undefined {
+    return this.artifactsWritten ? this.runArtifactDir : undefined;
+  }
+
+  /**
+   * Launch a browser for this scraper, or reuse a shared one. A shared browser
+   * is left open by `close()`; its owner closes it.
+   */
+  async init(sharedBrowser?: Browser): Promise<void> {
+    if (sharedBrowser) {
+      this.browser = sharedBrowser;
+      this.ownsBrowser = false;
+      return;
     }
+
+    this.browser = await launchBrowser(this.options.headless ?? true);
+    this.ownsBrowser = true;
   }
 
   async close(): Promise<void> {
-    if (this.browser) {
+    if (this.browser && this.ownsBrowser) {
       await this.browser.close();
-      console.log("✓ Browser closed");
+      logger.info("Browser closed", undefined, { icon: "✓" });
     }
+    this.browser = null;
   }
 
   async scrapeSuburb(): Promise<ScraperResult> {
@@ -72,39 +221,77 @@ export class Property24Scraper {
         throw new Error("Browser not initialized");
       }
 
-      console.log(`🔍 Scraping properties for: ${this.options.suburb}`);
+      this.emit({ type: "suburb-started", suburb: this.options.suburb });
 
       const page = await this.browser.newPage();
 
-      // Determine the correct listing URL by performing an on-site search for the suburb.
+      // Start from the saved listing URL when there is one; otherwise
+      // determine it by performing an on-site search for the suburb.
       // Property24 often requires a specific encoded path for suburbs; attempting search reduces 404s.
-      const searchUrl = await this.findListingUrlForSuburb(
-        page,
-        this.options.suburb
-      );
+      const savedUrl =
+        this.options.listingUrl &&
+        listingUrlForMode(this.options.listingUrl, this.options.mode ?? "sale");
+      let searchUrl: string;
+      if (savedUrl) {
+        searchUrl = savedUrl;
+        this.listingUrlForSuburb = savedUrl;
+      } else {
+        searchUrl = await this.findListingUrlForSuburb(
+          page,
+          this.options.suburb
+        );
+      }
 
-      console.log(`📍 Resolved URL: ${searchUrl}`);
+      this.emit({
+        type: "suburb-resolved",
+        suburb: this.options.suburb,
+        url: searchUrl,
+      });
 
       try {
-        await page.goto(searchUrl, {
-          waitUntil: "networkidle2",
-          timeout: this.options.timeout ?? 30000,
-        });
-        await this.takeScreenshot(page, "listing-page-loaded");
-
-        // Wait for property listings to load
-        await page
-          .waitForSelector('[class="p24_regularTile"]', { timeout: 10000 })
-          .catch(() => {
-            console.warn("⚠️  Property cards not found");
-          });
-
         // Scrape all pages with pagination
-        const properties = await this.extractPropertiesWithPagination(page);
+        let properties: ScrapedProperty[];
+        try {
+          properties = await this.extractPropertiesWithPagination(
+            page,
+            searchUrl,
+            errors
+          );
+        } catch (error) {
+          if (!(error instanceof ListingNotFoundError) || !savedUrl) {
+            throw error;
+          }
+          // The saved URL has gone stale; search for the suburb instead
+          this.warn(
+            `Saved listing URL ${savedUrl} returned 404; searching for ${this.options.suburb}`
+          );
+          this.listingUrlForSuburb = null;
+          searchUrl = await this.findListingUrlForSuburb(
+            page,
+            this.options.suburb
+          );
+          this.emit({
+            type: "suburb-resolved",
+            suburb: this.options.suburb,
+            url: searchUrl,
+          });
+          properties = await this.extractPropertiesWithPagination(
+            page,
+            searchUrl,
+            errors
+          );
+        }
         propertiesScraped = properties.length;
-        await this.takeScreenshot(page, "properties-extracted");
+        await this.captureArtifacts(page, "properties-extracted");
 
-        console.log(`✓ Found ${propertiesScraped} properties`);
+        this.emit({
+          type: "done",
+          suburb: this.options.suburb,
+          success: true,
+          propertiesScraped,
+          pagesVisited: this.pagesVisited,
+          errors,
+        });
 
         return {
           success: true,
@@ -113,15 +300,37 @@ export class Property24Scraper {
           errors,
           message: `Successfully scraped ${propertiesScraped} properties from ${this.options.suburb}`,
           properties,
+          resolvedUrl: searchUrl,
+          pagesVisited: this.pagesVisited,
+          // Only a clean run over every page can tell which listings are gone
+          complete:
+            (this.options.startPage ?? 1) <= 1 &&
+            this.reachedLastPage &&
+            errors.length === 0,
+          ...(this.pagesExpected !== undefined && {
+            pagesExpected: this.pagesExpected,
+          }),
+          ...(this.totalResults !== undefined && {
+            totalResults: this.totalResults,
+          }),
+          ...(this.artifactDir && { artifactDir: this.artifactDir }),
         };
       } finally {
         await page.close();
       }
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
+      const errorMessage = this.describeFailure(
+        error instanceof Error ? error.message : String(error)
+      );
       errors.push(errorMessage);
-      console.error("✗ Scraping error:", errorMessage);
+      this.emit({
+        type: "done",
+        suburb: this.options.suburb,
+        success: false,
+        propertiesScraped: 0,
+        pagesVisited: this.pagesVisited,
+        errors,
+      });
 
       return {
         success: false,
@@ -130,298 +339,244 @@ export class Property24Scraper {
         errors,
         message: `Failed to scrape properties: ${errorMessage}`,
         properties: [],
+        ...(this.listingUrlForSuburb && {
+          resolvedUrl: this.listingUrlForSuburb,
+        }),
+        pagesVisited: this.pagesVisited,
+        ...(this.artifactDir && { artifactDir: this.artifactDir }),
       };
     }
   }
 
-  private async extractPropertiesWithPagination(
-    page: Page
-  ): Promise<Property[]> {
-    const allProperties: Property[] = [];
-    let pageNumber = 1;
-    const maxPages = 100; // safety limit
-
-    while (pageNumber <= maxPages) {
-      console.log(`📄 Extracting properties from page ${pageNumber}...`);
-
-      // Extract properties from current page
-      const pageProperties = await this.extractProperties(page);
-      allProperties.push(...pageProperties);
-      console.log(
-        `  Found ${pageProperties.length} properties on page ${pageNumber}`
-      );
-
-      // Try to find and click next page button
-      const nextPageFound = await this.goToNextPage(page, pageNumber);
-      if (!nextPageFound) {
-        console.log(`📄 Reached last page (${pageNumber} total pages)`);
-        break;
-      }
-
-      pageNumber++;
+  /**
+   * Open a single listing detail page in its own tab and parse the fields the
+   * search-result cards don't show. Safe to call concurrently.
+   */
+  async scrapeDetailPage(propertyUrl: string): Promise<PropertyDetails> {
+    if (!this.browser) {
+      throw new Error("Browser not initialized");
     }
 
-    return allProperties;
-  }
-
-  private async goToNextPage(
-    page: Page,
-    currentPageNum: number
-  ): Promise<boolean> {
+    const page = await this.browser.newPage();
     try {
-      // Prefer explicit next-page anchor used by the site
-      const pullRight = await page.$("a.pull-right");
-      if (pullRight) {
-        const className: string =
-          (await page.evaluate((el: any) => el.className, pullRight)) || "";
-        // If it has text-muted class it is disabled / no next page
-        if (!className.includes("text-muted")) {
-          await pullRight.click();
-          try {
-            await page.waitForNavigation({
-              waitUntil: "networkidle2",
-              timeout: 10000,
-            });
-          } catch {
-            try {
-              await page.waitForSelector('[class="p24_regularTile"]', {
-                timeout: 5000,
-              });
-            } catch {
-              // cards may not appear; continue anyway
-            }
-          }
-          await this.takeScreenshot(
-            page,
-            `pagination-page-${currentPageNum + 1}`
-          );
-          return true;
-        }
+      try {
+        await this.loadPage(page, propertyUrl, `Detail page ${propertyUrl}`);
+      } catch (error) {
+        await this.captureArtifacts(page, "detail-page-failed", true);
+        throw new Error(
+          this.describeFailure(
+            error instanceof Error ? error.message : String(error)
+          )
+        );
       }
 
-      return false;
-    } catch (error) {
-      console.warn(
-        "⚠️  Error navigating to next page:",
-        error instanceof Error ? error.message : String(error)
-      );
-      return false;
-    }
-  }
-
-  private async extractProperties(page: Page): Promise<Property[]> {
-    const properties: Property[] = [];
-
-    const htmlContent = await page.content();
-    const $ = cheerio.load(htmlContent);
-
-    // Try multiple selectors as Property24 may have different layouts
-    const propertyElements = $(PROPERTY_CARD_SELECTORS.join(", "));
+      await page
+        .waitForSelector(this.selectors.detail.overviewRow, {
+          timeout: this.options.selectorTimeout ?? 10000,
+        })
+        .catch(async () => {
+          this.warn(`Property overview not found: ${propertyUrl}`);
+          await this.captureArtifacts(page, "detail-overview-missing", true);
+        });
 
-    if (propertyElements.length === 0) {
-      console.warn(
-        "⚠️  No property elements found, page structure may have changed"
-      );
-      return [];
+      const htmlContent = await page.content();
+      return parseDetailHtml(htmlContent, this.selectors);
+    } finally {
+      await page.close();
     }
+  }
 
-    propertyElements.each((_index: any, element: any) => {
-      const $element = $(element);
+  /**
+   * Fetch the requested slice of result pages by building each page URL from
+   * the resolved listing URL. The first page's header tells us how many pages
+   * exist, so a short run is reported instead of passing silently.
+   */
+  private async extractPropertiesWithPagination(
+    page: Page,
+    listingUrl: string,
+    errors: string[]
+  ): Promise<ScrapedProperty[]> {
+    const allProperties: ScrapedProperty[] = [];
+    const seenUrls = new Set<string>();
+    const startPage = Math.max(1, this.options.startPage ?? 1);
+    const maxPages = this.options.maxPages ?? MAX_PAGES;
+    let lastPage = startPage + maxPages - 1;
+    let pagesFetched = 0;
+    let consecutiveFailures = 0;
+    // Set when an empty page already reported the run falling short
+    let shortfallReported = false;
+
+    for (
+      let pageNumber = startPage;
+      pageNumber <= lastPage;
+      pageNumber++
+    ) {
+      const pageUrl = buildPageUrl(listingUrl, pageNumber);
+      this.emit({
+        type: "page-started",
+        suburb: this.options.suburb,
+        page: pageNumber,
+        url: pageUrl,
+      });
 
+      // A page that keeps failing is recorded and skipped; the pages already
+      // scraped are kept and the run is reported as incomplete. A failed first
+      // page, or several failures in a row, ends the run instead of trying
+      // every remaining page against a site that is down
+      let status: number | undefined;
       try {
-        // Extract property listing URL (should start with /for-sale/)
-        // Look for links within the property card
-        let propertyUrl: string | undefined;
-
-        // First, try to find a link that matches /for-sale/ pattern
-        $element.find('a[href*="/for-sale/"]').each((_i: any, el: any) => {
-          const href = $(el).attr("href");
-          if (href && !propertyUrl) {
-            propertyUrl = href;
-          }
+        status = await this.loadPage(page, pageUrl, `Page ${pageNumber}`);
+      } catch (error) {
+        await this.captureArtifacts(page, `listing-page-${pageNumber}`, true);
+        const errorMessage = this.describeFailure(
+          error instanceof Error ? error.message : String(error)
+        );
+        errors.push(errorMessage);
+        this.emit({
+          type: "page-failed",
+          suburb: this.options.suburb,
+          page: pageNumber,
+          error: errorMessage,
         });
-
-        // If not found, try generic title/header links
-        if (!propertyUrl) {
-          const titleEl = $element.find('h2, [class*="title"], a[href*="/p/"]');
-          const linkEl = titleEl.find("a").length
-            ? titleEl.find("a")
-            : titleEl.closest("a");
-          propertyUrl = linkEl.attr("href");
+        consecutiveFailures++;
+        if (pageNumber === startPage) {
+          break;
         }
-
-        if (!propertyUrl) {
-          return; // Skip if no URL found
+        if (consecutiveFailures >= MAX_CONSECUTIVE_PAGE_FAILURES) {
+          errors.push(
+            `Stopped after ${consecutiveFailures} failed pages in a row (last page ${pageNumber})`
+          );
+          break;
         }
+        continue;
+      }
+      consecutiveFailures = 0;
+      if (status === 404 && pageNumber === startPage) {
+        await this.captureArtifacts(page, `listing-page-${pageNumber}`, true);
+        throw new ListingNotFoundError(pageUrl);
+      }
+      await page
+        .waitForSelector(this.selectors.listing.cardWait, {
+          timeout: this.options.selectorTimeout ?? 10000,
+        })
+        .catch(async () => {
+          this.warn(`Property cards not found on page ${pageNumber}`);
+          await this.captureArtifacts(
+            page,
+            `listing-page-${pageNumber}-no-cards`,
+            true
+          );
+        });
+      await this.captureArtifacts(page, `listing-page-${pageNumber}`);
+      this.pagesVisited++;
 
-        const fullUrl = propertyUrl.startsWith("http")
-          ? propertyUrl
-          : `https://www.property24.com${propertyUrl}`;
-
-        // Extract address components
-        const addressText = $element
-          .find('[class*="address"], .address, span')
-          .text();
-        const addressParts = this.parseAddress(addressText);
-
-        // Extract price information
-        const priceText = $element
-          .find('[class*="price"], .price')
-          .first()
-          .text();
-        const { totalPrice, pricePerSqm } = this.parsePrice(priceText);
-
-        // Extract property details
-        const propertyTypeEl = $element
-          .find('[class*="property-type"], span')
-          .filter((_: any, el: any) => {
-            const text = $(el).text().toLowerCase();
-            return (
-              text.includes("house") ||
-              text.includes("apartment") ||
-              text.includes("townhouse") ||
-              text.includes("land")
-            );
-          })
-          .first();
-        const propertyType = propertyTypeEl.text().trim() || undefined;
-
-        // Extract bedrooms and bathrooms
-        const features = $element.find('[class*="feature"], li').text();
-        const bedrooms = this.extractNumber(
-          features,
-          /(\d+)\s*(?:bed|bedroom)/i
-        );
-        const bathrooms = this.extractNumber(
-          features,
-          /(\d+)\s*(?:bath|bathroom)/i
-        );
+      const htmlContent = await page.content();
 
-        // Extract floor size
-        const floorSizeMatch = features.match(/(\d+)\s*(?:m²|sqm|m2)/i);
-        const floorSizeSqm = floorSizeMatch
-          ? parseFloat(floorSizeMatch[1] ?? "0")
-          : undefined;
-
-        // Extract status
-        const statusEl = $element
-          .find('[class*="status"], span')
-          .filter((_: any, el: any) => {
-            const text = $(el).text().toLowerCase();
-            return (
-              text.includes("sold") ||
-              text.includes("offer") ||
-              text.includes("listed")
+      if (pageNumber === startPage) {
+        const summary = parseListingSummary(
+          htmlContent,
+          this.options.pageSize ?? DEFAULT_PAGE_SIZE,
+          this.selectors
+        );
+        this.totalResults = summary.totalResults;
+        this.pagesExpected = summary.pageCount;
+
+        if (summary.pageCount !== undefined) {
+          this.emit({
+            type: "results-counted",
+            suburb: this.options.suburb,
+            pageCount: summary.pageCount,
+            ...(summary.totalResults !== undefined && {
+              totalResults: summary.totalResults,
+            }),
+          });
+          if (startPage > summary.pageCount) {
+            errors.push(
+              `Start page ${startPage} is beyond the last page (${summary.pageCount})`
             );
-          })
-          .first();
-        const statusText = statusEl.text().toLowerCase();
-        let status: "sold" | "under_offer" | "no_offer" | undefined;
-        if (statusText.includes("sold")) {
-          status = "sold";
-        } else if (statusText.includes("offer")) {
-          status = "under_offer";
+            break;
+          }
+          lastPage = Math.min(lastPage, summary.pageCount);
         }
-
-        // Extract listing date
-        const listingDateText =
-          $element.find('[class*="date"], time').attr("datetime") ||
-          $element.find('[class*="listed"]').text();
-        const listingDate = this.parseDate(listingDateText);
-
-        const property = {
-          property_url: fullUrl,
-          street_address: addressParts.street,
-          estate_complex: addressParts.estate,
-          suburb: addressParts.suburb || this.options.suburb,
-          city: addressParts.city,
-          postal_code: addressParts.postalCode,
-          floor_size_sqm: floorSizeSqm,
-          total_price: totalPrice,
-          price_per_sqm: pricePerSqm,
-          property_type: propertyType,
-          bedrooms,
-          bathrooms,
-          status,
-          listing_date: listingDate,
-        } as unknown as Property;
-
-        properties.push(property);
-      } catch (error) {
-        console.warn(
-          "⚠️  Failed to parse property element:",
-          error instanceof Error ? error.message : String(error)
-        );
       }
-    });
-
-    return properties;
-  }
-
-  private parseAddress(addressText: string): {
-    street?: string;
-    estate?: string;
-    suburb?: string;
-    city?: string;
-    postalCode?: string;
-  } {
-    const parts = addressText.split(",").map((p) => p.trim());
-
-    return {
-      street: parts[0] || undefined,
-      estate: parts[1] || undefined,
-      suburb: parts[2] || undefined,
-      city: parts[3] || undefined,
-      postalCode: parts[4] || undefined,
-    } as {
-      street?: string;
-      estate?: string;
-      suburb?: string;
-      city?: string;
-      postalCode?: string;
-    };
-  }
-
-  private parsePrice(priceText: string): {
-    totalPrice: number | undefined;
-    pricePerSqm: number | undefined;
-  } {
-    const totalPriceMatch = priceText.match(/R[\s,\d.]+/);
-    const totalPrice = totalPriceMatch
-      ? parseFloat(totalPriceMatch[0].replace(/[R\s,]/g, ""))
-      : undefined;
-
-    const pricePerSqmMatch = priceText.match(/R[\s,\d.]+\s*per\s*m²/i);
-    const pricePerSqm = pricePerSqmMatch
-      ? parseFloat(pricePerSqmMatch[0].replace(/[R\s,\/m²]/gi, ""))
-      : undefined;
-
-    return { totalPrice: totalPrice, pricePerSqm: pricePerSqm };
-  }
-
-  private extractNumber(text: string, pattern: RegExp): number | undefined {
-    const match = text.match(pattern);
-    return match ? parseInt(match[1] ?? "0", 10) : undefined;
-  }
 
-  private parseDate(dateText: string | undefined): Date | undefined {
-    if (!dateText) return undefined;
+      const pageProperties = parseListingHtml(
+        htmlContent,
+        this.options.suburb,
+        this.selectors,
+        (event) => this.emit(event)
+      );
+      const newProperties = pageProperties.filter(
+        (property) => !seenUrls.has(property.property_url)
+      );
+      newProperties.forEach((property) => seenUrls.add(property.property_url));
+      allProperties.push(...newProperties);
+      this.emit({
+        type: "page-extracted",
+        suburb: this.options.suburb,
+        page: pageNumber,
+        count: pageProperties.length,
+        newCount: newProperties.length,
+      });
 
-    // Try parsing ISO format first
-    if (dateText.includes("T")) {
-      const date = new Date(dateText);
-      if (!isNaN(date.getTime())) {
-        return date;
+      // An empty page, or one repeating earlier cards (the site redirects
+      // out-of-range pages), means we've run past the end of the results
+      if (newProperties.length === 0) {
+        if (this.pagesExpected === undefined && pagesFetched === 0) {
+          // No cards and no result summary on the first page is a bot check,
+          // a changed layout or a timeout, not a suburb without listings
+          await this.captureArtifacts(
+            page,
+            `listing-page-${pageNumber}-empty`,
+            true
+          );
+          errors.push(
+            this.describeFailure(
+              `Page ${pageNumber} returned no properties and no result summary`
+            )
+          );
+        } else if (this.pagesExpected !== undefined) {
+          await this.captureArtifacts(
+            page,
+            `listing-page-${pageNumber}-empty`,
+            true
+          );
+          errors.push(
+            this.describeFailure(
+              `Page ${pageNumber} of ${this.pagesExpected} returned no new properties`
+            )
+          );
+          shortfallReported = true;
+        } else {
+          this.emit({
+            type: "last-page-reached",
+            suburb: this.options.suburb,
+            page: pageNumber - 1,
+          });
+          this.reachedLastPage = true;
+        }
+        break;
       }
+
+      pagesFetched++;
     }
 
-    // Try common South African date formats
-    const dateMatch = dateText.match(/(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})/);
-    if (dateMatch) {
-      return new Date(`${dateMatch[3]}-${dateMatch[2]}-${dateMatch[1]}`);
+    const pagesRequested = lastPage - startPage + 1;
+    if (this.pagesExpected !== undefined) {
+      if (pagesFetched < pagesRequested) {
+        if (!shortfallReported) {
+          errors.push(
+            this.describeFailure(
+              `Expected ${pagesRequested} pages from page ${startPage} but only ${pagesFetched} returned properties`
+            )
+          );
+        }
+      } else if (lastPage === this.pagesExpected) {
+        this.reachedLastPage = true;
+      }
     }
 
-    return undefined;
+    return allProperties;
   }
 
   private listingUrlForSuburb: string | null = null;
@@ -433,23 +588,72 @@ export class Property24Scraper {
       return this.listingUrlForSuburb;
     }
 
+    const { url } = await this.searchSuburb(page, suburb);
+    this.listingUrlForSuburb = listingUrlForMode(
+      url,
+      this.options.mode ?? "sale"
+    );
+    return this.listingUrlForSuburb;
+  }
+
+  /**
+   * Search the site for this scraper's suburb and return the results URL it
+   * lands on, without scraping. When several suggestions fit the name an
+   * `AmbiguousSuburbError` lists them; call again with one as `choice`.
+   */
+  async resolveSuburb(choice?: string): Promise<SuburbSearchResult> {
+    if (!this.browser) {
+      throw new Error("Browser not initialized");
+    }
+
+    const page = await this.browser.newPage();
+    try {
+      return await this.searchSuburb(page, this.options.suburb, choice);
+    } finally {
+      await page.close();
+    }
+  }
+
+  private async searchSuburb(
+    page: Page,
+    suburb: string,
+    choice?: string
+  ): Promise<SuburbSearchResult> {
+    const outcome = await withRetry(
+      `Search for ${suburb}`,
+      () => this.searchForListingUrl(page, suburb, choice),
+      this.retryPolicy,
+      this.retryListener(`Search for ${suburb}`)
+    );
+    if ("candidates" in outcome) {
+      throw new AmbiguousSuburbError(suburb, outcome.candidates);
+    }
+    return outcome;
+  }
+
+  private async searchForListingUrl(
+    page: Page,
+    suburb: string,
+    choice?: string
+  ): Promise<SuburbSearchResult | { candidates: string[] }> {
     // Navigate to homepage and attempt to use the search box
     try {
-      await page.goto(BASE_URL, { waitUntil: "networkidle2", timeout: 15000 });
-      await this.takeScreenshot(page, "homepage-loaded");
-    } catch {
-      throw new Error("Failed to load Property24 homepage");
+      await this.loadPage(page, BASE_URL, "Homepage", { retry: false });
+      await this.captureArtifacts(page, "homepage-loaded");
+    } catch (error) {
+      await this.captureArtifacts(page, "homepage-failed", true);
+      throw new Error(
+        `Failed to load Property24 homepage: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
     }
 
     // close cookie consent if present
     await this.closeCookieBanner(page);
 
-    const searchInputSelectors = [
-      'input[id*="token-input-AutoCompleteItems"]',
-      'input[placeholder*="Search for a City, Suburb or Web Reference"]',
-    ];
-
-    for (const sel of searchInputSelectors) {
+    const failures: string[] = [];
+    for (const sel of this.selectors.search.inputs) {
       // check if search selector exists
       const exists = await page.$(sel);
       if (!exists) continue;
@@ -459,38 +663,68 @@ export class Property24Scraper {
         await page.focus(sel);
         await page.click(sel, { clickCount: 1 }).catch(() => {});
         await page.type(sel, suburb, { delay: 500 });
-        await this.takeScreenshot(page, "search-input-filled");
-
-        // delay to wait for suggestions to load
-        await Promise.resolve().then(() => setTimeout(() => {}, 5000));
-
-        // selecting top result
-        await page.keyboard
-          .press("Enter", {
-            delay: 5000, // delay to wait for suggestion to be selected
-          })
-          .catch(() => {
-            throw new Error("Failed to press enter key to submit search");
-          });
-        await this.takeScreenshot(page, "search-submitted");
+        await this.captureArtifacts(page, "search-input-filled");
+
+        // wait for suggestions to load
+        await sleep(SUGGESTION_DELAY);
+
+        // Several suggestions fitting the name are handed back to pick from
+        // rather than silently taking the top one
+        const suggestionsSelector = this.selectors.search.suggestions;
+        const suggestions = suggestionsSelector
+          ? parseSearchSuggestions(await page.content(), suggestionsSelector)
+          : [];
+        const candidates = suburbCandidates(suburb, suggestions);
+        let suggestion: string | undefined;
+        if (choice !== undefined) {
+          suggestion = candidates.find(
+            (text) => text.toLowerCase() === choice.trim().toLowerCase()
+          );
+          if (suggestion === undefined) {
+            return { candidates };
+          }
+        } else if (candidates.length > 1) {
+          return { candidates };
+        } else {
+          suggestion = candidates[0];
+        }
+
+        if (suggestion !== undefined && suggestionsSelector) {
+          const items = await page.$$(suggestionsSelector);
+          const item = items[suggestions.indexOf(suggestion)];
+          if (!item) {
+            throw new Error(`Suggestion "${suggestion}" disappeared`);
+          }
+          await item.click();
+        } else {
+          // selecting top result
+          await page.keyboard
+            .press("Enter", {
+              delay: 5000, // delay to wait for suggestion to be selected
+            })
+            .catch(() => {
+              throw new Error("Failed to press enter key to submit search");
+            });
+        }
+        await this.captureArtifacts(page, "search-submitted");
 
         // click on search button
-        await page.focus('button[class="btn btn-danger"]');
-        await page.click('button[class="btn btn-danger"]').catch(() => {
+        await page.focus(this.selectors.search.submitButton);
+        await page.click(this.selectors.search.submitButton).catch(() => {
           throw new Error("No search button found");
         });
-        await this.takeScreenshot(page, "search-button-clicked");
+        await this.captureArtifacts(page, "search-button-clicked");
 
         // wait for navigation to complete
         try {
-          await page.waitForSelector("div.js_listingResultsContainer", {
-            timeout: 30000,
+          await page.waitForSelector(this.selectors.search.resultsContainer, {
+            timeout: this.options.timeout ?? 30000,
           });
-          await this.takeScreenshot(page, "after-navigation");
+          await this.captureArtifacts(page, "after-navigation");
         } catch {
           // ignore navigation timeout
-          console.log("⚠️  Navigation timeout after search submission");
-          await this.takeScreenshot(page, "navigation-timeout");
+          this.warn("Navigation timeout after search submission");
+          await this.captureArtifacts(page, "navigation-timeout", true);
         }
 
         // grab the resulting URL
@@ -498,45 +732,171 @@ export class Property24Scraper {
         // Heuristic: listing pages often contain '/property' or '/properties' or '/for-sale'
         if (
           /\/properties\//i.test(resolved) ||
-          /for-sale/i.test(resolved) ||
+          /for-sale|to-rent/i.test(resolved) ||
           /\/p\//i.test(resolved)
         ) {
-          return resolved;
+          return {
+            url: resolved,
+            ...(suggestion !== undefined && { suggestion }),
+          };
         }
-      } catch {
+        failures.push(`${sel}: search landed on ${resolved}`);
+        await this.captureArtifacts(page, "search-unresolved", true);
+      } catch (error) {
         // try next search selector
+        await this.captureArtifacts(page, "search-failed", true);
+        failures.push(
+          `${sel}: ${error instanceof Error ? error.message : String(error)}`
+        );
       }
     }
 
-    throw new Error(`Could not resolve listing URL for suburb: ${suburb}`);
+    throw new Error(
+      `Could not resolve listing URL for suburb: ${suburb}${
+        failures.length > 0 ? ` (${failures.join("; ")})` : ""
+      }`
+    );
+  }
+
+  private emit(event: ScraperEvent): void {
+    if (this.options.onEvent) {
+      this.options.onEvent(event);
+    } else {
+      logger.event(event);
+    }
+  }
+
+  private warn(message: string): void {
+    this.emit({ type: "warning", suburb: this.options.suburb, message });
+  }
+
+  private retryListener(label: string): (retry: RetryAttempt) => void {
+    return (retry) =>
+      this.emit({
+        type: "retry",
+        suburb: this.options.suburb,
+        label,
+        ...retry,
+      });
+  }
+
+  private get retryPolicy(): RetryPolicy {
+    return {
+      retries: this.options.retries ?? 3,
+      baseDelay: this.options.retryDelay ?? 2000,
+      maxDelay: this.options.maxRetryDelay ?? 30000,
+    };
+  }
+
+  /**
+   * Wait until at least `pageDelay` has passed since the previous page load
+   * from this scraper. Slots are reserved before waiting, so concurrent tabs
+   * are spaced out rather than released together.
+   */
+  private async waitForPageSlot(): Promise<void> {
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextPageLoadAt);
+    this.nextPageLoadAt = startAt + (this.options.pageDelay ?? 0);
+    if (startAt > now) {
+      await sleep(startAt - now);
+    }
+  }
+
+  /**
+   * Navigate to a URL, paced and with retries. Timeouts, network errors and
+   * 408/429/5xx responses are retried. Returns the response status.
+   */
+  private async loadPage(
+    page: Page,
+    url: string,
+    label: string,
+    options: { retry?: boolean } = {}
+  ): Promise<number | undefined> {
+    const policy = this.retryPolicy;
+    return withRetry(
+      label,
+      async () => {
+        await this.waitForPageSlot();
+        const response = await page.goto(url, {
+          waitUntil: "networkidle2",
+          timeout: this.options.timeout ?? 30000,
+        });
+        const status = response?.status();
+        if (status !== undefined && RETRYABLE_STATUSES.has(status)) {
+          throw new Error(`HTTP ${status} for ${url}`);
+        }
+        return status;
+      },
+      options.retry === false ? { ...policy, retries: 0 } : policy,
+      this.retryListener(label)
+    );
   }
 
-  private async takeScreenshot(page: Page, label: string): Promise<void> {
+  /**
+   * Save a screenshot and/or the page HTML to the run's artifact folder, as
+   * allowed by the `artifacts` mode: `all` saves every step, `on-error` only
+   * the steps flagged as failures.
+   */
+  private async captureArtifacts(
+    page: Page,
+    label: string,
+    isError: boolean = false
+  ): Promise<void> {
+    const mode = this.options.artifacts ?? "on-error";
+    if (mode === "none" || (mode === "on-error" && !isError)) {
+      return;
+    }
+
     try {
-      this.screenshotCounter++;
+      await fs.promises.mkdir(this.runArtifactDir, { recursive: true });
+      this.artifactsWritten = true;
+
+      this.artifactCounter++;
       const timestamp = new Date()
         .toISOString()
         .replace(/[:.]/g, "-")
         .slice(0, -5);
-      const filename = `${this.screenshotCounter
+      const basename = `${this.artifactCounter
         .toString()
-        .padStart(3, "0")}_${label}_${timestamp}.png`;
-      const filepath = path.join(this.tmpDir, filename);
-      await page.screenshot({ path: filepath, fullPage: true });
-      console.log(`📸 Screenshot saved: ${filename}`);
+        .padStart(3, "0")}_${label}_${timestamp}`;
+      const basePath = path.join(this.runArtifactDir, basename);
+
+      const format = this.options.artifactFormat ?? "both";
+      if (format !== "html") {
+        await page.screenshot({ path: `${basePath}.png`, fullPage: true });
+      }
+      if (format !== "screenshot") {
+        await fs.promises.writeFile(`${basePath}.html`, await page.content());
+      }
+      this.emit({
+        type: "artifact-saved",
+        suburb: this.options.suburb,
+        path: basePath,
+      });
     } catch (error) {
-      console.warn(
-        `⚠️  Failed to take screenshot:`,
-        error instanceof Error ? error.message : String(error)
+      this.warn(
+        `Failed to save artifacts: ${
+          error instanceof Error ? error.message : String(error)
+        }`
       );
     }
   }
 
+  /**
+   * Point an error message at the artifact folder, when there is one, so the
+   * failing page can be inspected.
+   */
+  private describeFailure(message: string): string {
+    return this.artifactDir
+      ? `${message} (artifacts: ${this.artifactDir})`
+      : message;
+  }
+
   private async closeCookieBanner(page: Page): Promise<void> {
-    const cookieButton = await page.$('button[id="cookieBannerClose"]');
+    const cookieButton = await page.$(this.selectors.search.cookieBannerClose);
     if (cookieButton) {
       await cookieButton.click();
-      await this.takeScreenshot(page, "cookie-consent-closed");
+      await this.captureArtifacts(page, "cookie-consent-closed");
     }
   }
 }
@@ -0,0 +1,117 @@
+import fs from "fs";
+import path from "path";
+import type { SelectorProfile } from "./types";
+
+const SELECTORS_DIR = path.join(__dirname, "..", "selectors");
+
+export const DEFAULT_SELECTORS_PATH = path.join(SELECTORS_DIR, "default.json");
+
+// Profile format versions this code understands
+const SUPPORTED_VERSIONS = [1];
+
+const PROFILE_SECTIONS = ["listing", "detail", "search"] as const;
+
+let defaultProfile: SelectorProfile | null = null;
+
+/**
+ * Load and validate a selector profile. Without a file the bundled default
+ * profile is used (and cached).
+ */
+export function loadSelectorProfile(file?: string): SelectorProfile {
+  if (!file && defaultProfile) {
+    return defaultProfile;
+  }
+
+  const profilePath = file ? path.resolve(file) : DEFAULT_SELECTORS_PATH;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(profilePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read selector profile ${profilePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const problems = validateSelectorProfile(raw);
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid selector profile ${profilePath}:\n  - ${problems.join("\n  - ")}`
+    );
+  }
+
+  const profile = raw as SelectorProfile;
+  if (!file) {
+    defaultProfile = profile;
+  }
+  return profile;
+}
+
+/**
+ * Check a parsed profile against `selectors/schema.json`: supported version,
+ * every required selector present and non-empty (optional ones non-empty when
+ * given), no unknown keys. Returns a list of problems, empty when the profile
+ * is valid.
+ */
+export function validateSelectorProfile(profile: unknown): string[] {
+  const schema = JSON.parse(
+    fs.readFileSync(path.join(SELECTORS_DIR, "schema.json"), "utf8")
+  );
+  const problems: string[] = [];
+
+  if (typeof profile !== "object" || profile === null) {
+    return ["profile must be a JSON object"];
+  }
+  const record = profile as Record<string, unknown>;
+
+  if (!SUPPORTED_VERSIONS.includes(record.version as number)) {
+    problems.push(
+      `unsupported version ${JSON.stringify(
+        record.version
+      )} (supported: ${SUPPORTED_VERSIONS.join(", ")})`
+    );
+  }
+  if (typeof record.name !== "string" || record.name.length === 0) {
+    problems.push("name must be a non-empty string");
+  }
+
+  for (const section of PROFILE_SECTIONS) {
+    const sectionSchema = schema.properties[section];
+    const value = record[section];
+    if (typeof value !== "object" || value === null) {
+      problems.push(`${section} must be an object`);
+      continue;
+    }
+    const selectors = value as Record<string, unknown>;
+
+    for (const key of Object.keys(sectionSchema.properties)) {
+      const selector = selectors[key];
+      const required = (sectionSchema.required as string[]).includes(key);
+      if (!required && selector === undefined) continue;
+
+      const isArray = sectionSchema.properties[key]?.type === "array";
+      if (isArray) {
+        if (
+          !Array.isArray(selector) ||
+          selector.length === 0 ||
+          selector.some((item) => typeof item !== "string" || item === "")
+        ) {
+          problems.push(
+            `${section}.${key} must be a non-empty list of selectors`
+          );
+        }
+      } else if (typeof selector !== "string" || selector === "") {
+        problems.push(`${section}.${key} must be a non-empty selector`);
+      }
+    }
+
+    for (const key of Object.keys(selectors)) {
+      if (!(key in sectionSchema.properties)) {
+        problems.push(`${section}.${key} is not a known selector`);
+      }
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,319 @@
+import http from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import {
+  countProperties,
+  getPropertyById,
+  getPropertyByUrl,
+  getSuburbCounts,
+  getSuburbStats,
+  PROPERTY_SORT_FIELDS,
+  queryProperties,
+  withNumericDecimals,
+} from "./database";
+import { LISTING_TYPES, PROPERTY_TYPES } from "./normalise";
+import type {
+  ListingType,
+  PropertyFilter,
+  PropertyQueryOptions,
+  PropertySortField,
+  PropertyStatus,
+  PropertyType,
+} from "./types";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const STATUSES: PropertyStatus[] = ["sold", "under_offer", "no_offer"];
+
+/**
+ * An error that maps onto an HTTP response status, e.g. a 400 for a bad
+ * query parameter.
+ */
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type Handler = (
+  params: string[],
+  query: URLSearchParams
+) => Promise<unknown>;
+
+// Read-only routes, matched in order against the request path
+const ROUTES: { pattern: RegExp; handler: Handler }[] = [
+  { pattern: /^\/properties\/?$/, handler: listPropertiesRoute },
+  { pattern: /^\/properties\/by-url\/?$/, handler: propertyByUrlRoute },
+  { pattern: /^\/properties\/([^/]+)\/?$/, handler: propertyByIdRoute },
+  { pattern: /^\/suburbs\/?$/, handler: suburbsRoute },
+  { pattern: /^\/suburbs\/([^/]+)\/stats\/?$/, handler: suburbStatsRoute },
+];
+
+/**
+ * Create the read-only JSON API over the properties database. The caller is
+ * responsible for `listen()` and for closing the database pool.
+ */
+export function createApiServer(): Server {
+  return http.createServer((req, res) => {
+    handleRequest(req, res).catch((error: unknown) => {
+      console.error(
+        "✗ Unhandled API error:",
+        error instanceof Error ? error.message : String(error)
+      );
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    });
+  });
+}
+
+async function handleRequest(
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+
+  try {
+    if (req.method !== "GET") {
+      throw new HttpError(405, `Method ${req.method} not allowed`);
+    }
+
+    for (const route of ROUTES) {
+      const match = url.pathname.match(route.pattern);
+      if (!match) continue;
+
+      const params = match.slice(1).map(decodePathParam);
+      const body = await route.handler(params, url.searchParams);
+      sendJson(res, 200, body);
+      return;
+    }
+
+    throw new HttpError(404, `No route for ${url.pathname}`);
+  } catch (error: unknown) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    throw error;
+  } finally {
+    console.log(`${req.method} ${url.pathname}${url.search} ${res.statusCode}`);
+  }
+}
+
+function decodePathParam(param: string): string {
+  try {
+    return decodeURIComponent(param);
+  } catch (error: unknown) {
+    if (error instanceof URIError) {
+      throw new HttpError(400, `Malformed path segment "${param}"`);
+    }
+    throw error;
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+async function listPropertiesRoute(
+  _params: string[],
+  query: URLSearchParams
+): Promise<unknown> {
+  const filter = parseFilter(query);
+  const options = parseQueryOptions(query);
+
+  const [properties, total] = await Promise.all([
+    queryProperties(filter, options),
+    countProperties(filter),
+  ]);
+
+  return {
+    data: properties.map(withNumericDecimals),
+    pagination: {
+      total,
+      limit: options.limit,
+      offset: options.offset,
+    },
+  };
+}
+
+async function propertyByIdRoute(params: string[]): Promise<unknown> {
+  const id = Number(params[0]);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError(400, "Property id must be a positive integer");
+  }
+
+  const property = await getPropertyById(id);
+  if (!property) {
+    throw new HttpError(404, `Property ${id} not found`);
+  }
+  return withNumericDecimals(property);
+}
+
+async function propertyByUrlRoute(
+  _params: string[],
+  query: URLSearchParams
+): Promise<unknown> {
+  const propertyUrl = query.get("url");
+  if (!propertyUrl) {
+    throw new HttpError(400, 'Query parameter "url" is required');
+  }
+
+  const property = await getPropertyByUrl(propertyUrl);
+  if (!property) {
+    throw new HttpError(404, `Property not found: ${propertyUrl}`);
+  }
+  return withNumericDecimals(property);
+}
+
+async function suburbsRoute(): Promise<unknown> {
+  return { data: await getSuburbCounts() };
+}
+
+async function suburbStatsRoute(params: string[]): Promise<unknown> {
+  const suburb = params[0] ?? "";
+  const stats = await getSuburbStats(suburb);
+  if (stats.overall.count === 0) {
+    throw new HttpError(404, `No properties found for suburb: ${suburb}`);
+  }
+  return stats;
+}
+
+/**
+ * Build a property filter from query parameters. Repeated parameters
+ * (`?suburb=a&suburb=b`) and comma-separated lists are both accepted.
+ */
+function parseFilter(query: URLSearchParams): PropertyFilter {
+  const filter: PropertyFilter = {
+    suburbCaseInsensitive: query.get("exact") !== "true",
+    includeRemoved: parseBoolean(query, "include_removed") ?? false,
+  };
+
+  const suburbs = parseList(query, "suburb");
+  if (suburbs.length > 0) filter.suburbs = suburbs;
+
+  const types = parseList(query, "type");
+  const invalidType = types.find(
+    (type) => !PROPERTY_TYPES.includes(type as PropertyType)
+  );
+  if (invalidType) {
+    throw new HttpError(
+      400,
+      `Invalid type "${invalidType}". Allowed: ${PROPERTY_TYPES.join(", ")}`
+    );
+  }
+  if (types.length > 0) filter.propertyTypes = types as PropertyType[];
+
+  const listingTypes = parseList(query, "listing_type");
+  const invalidListingType = listingTypes.find(
+    (listingType) => !LISTING_TYPES.includes(listingType as ListingType)
+  );
+  if (invalidListingType) {
+    throw new HttpError(
+      400,
+      `Invalid listing_type "${invalidListingType}". Allowed: ${LISTING_TYPES.join(
+        ", "
+      )}`
+    );
+  }
+  if (listingTypes.length > 0) {
+    filter.listingTypes = listingTypes as ListingType[];
+  }
+
+  const statuses = parseList(query, "status");
+  const invalidStatus = statuses.find(
+    (status) => !STATUSES.includes(status as PropertyStatus)
+  );
+  if (invalidStatus) {
+    throw new HttpError(
+      400,
+      `Invalid status "${invalidStatus}". Allowed: ${STATUSES.join(", ")}`
+    );
+  }
+  if (statuses.length > 0) filter.statuses = statuses as PropertyStatus[];
+
+  const minPrice = parseNumber(query, "min_price");
+  if (minPrice !== undefined) filter.minPrice = minPrice;
+  const maxPrice = parseNumber(query, "max_price");
+  if (maxPrice !== undefined) filter.maxPrice = maxPrice;
+  const minBedrooms = parseNumber(query, "min_beds");
+  if (minBedrooms !== undefined) filter.minBedrooms = minBedrooms;
+  const minFloorSize = parseNumber(query, "min_size");
+  if (minFloorSize !== undefined) filter.minFloorSize = minFloorSize;
+  const maxPricePerSqm = parseNumber(query, "max_price_per_sqm");
+  if (maxPricePerSqm !== undefined) filter.maxPricePerSqm = maxPricePerSqm;
+
+  return filter;
+}
+
+function parseQueryOptions(
+  query: URLSearchParams
+): PropertyQueryOptions & { limit: number; offset: number } {
+  const limit = parseNumber(query, "limit") ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new HttpError(
+      400,
+      `"limit" must be an integer between 1 and ${MAX_LIMIT}`
+    );
+  }
+
+  const offset = parseNumber(query, "offset") ?? 0;
+  if (!Number.isInteger(offset)) {
+    throw new HttpError(400, '"offset" must be an integer');
+  }
+
+  const options: PropertyQueryOptions & { limit: number; offset: number } = {
+    limit,
+    offset,
+  };
+
+  const sort = query.get("sort");
+  if (sort) {
+    const [field, direction = "asc"] = sort.split(":");
+    if (!PROPERTY_SORT_FIELDS.includes(field as PropertySortField)) {
+      throw new HttpError(
+        400,
+        `Invalid sort field "${field}". Allowed: ${PROPERTY_SORT_FIELDS.join(
+          ", "
+        )}`
+      );
+    }
+    if (direction !== "asc" && direction !== "desc") {
+      throw new HttpError(400, 'Sort direction must be "asc" or "desc"');
+    }
+    options.sort = { field: field as PropertySortField, direction };
+  }
+
+  return options;
+}
+
+function parseList(query: URLSearchParams, name: string): string[] {
+  return query
+    .getAll(name)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+function parseNumber(query: URLSearchParams, name: string): number | undefined {
+  const raw = query.get(name);
+  if (raw === null || raw === "") return undefined;
+
+  const value = Number(raw);
+  if (isNaN(value) || value < 0) {
+    throw new HttpError(400, `"${name}" must be a non-negative number`);
+  }
+  return value;
+}
+
+function parseBoolean(
+  query: URLSearchParams,
+  name: string
+): boolean | undefined {
+  const raw = query.get(name);
+  if (raw === null) return undefined;
+  if (raw === "true" || raw === "1") return true;
+  if (raw === "false" || raw === "0") return false;
+  throw new HttpError(400, `"${name}" must be true or false`);
+}
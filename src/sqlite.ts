@@ -0,0 +1,769 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { LISTING_DATA_COLUMNS, SORT_COLUMNS } from "./database";
+import { logger } from "./logger";
+import type { PropertyRepository } from "./store";
+import type {
+  ListingType,
+  Property,
+  PropertyDetails,
+  PropertyFilter,
+  PropertyQueryOptions,
+  PropertySnapshot,
+  RejectedProperty,
+  SaveCounts,
+  ScrapeRun,
+  ScrapeRunFilter,
+  ScraperResult,
+  UpsertResult,
+} from "./types";
+
+const SCHEMA_PATH = path.join(
+  __dirname,
+  "..",
+  "migrations",
+  "sqlite",
+  "schema.sql"
+);
+
+// Timestamps are stored as ISO 8601 UTC text so they sort as strings
+const NOW_SQL = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
+const DAYS_ON_MARKET_SQL = `CAST(julianday(COALESCE(removed_at, ${NOW_SQL})) - julianday(first_seen_at) AS INTEGER)`;
+
+const TIMESTAMP_COLUMNS = new Set([
+  "scrape_date",
+  "enriched_at",
+  "first_seen_at",
+  "last_seen_at",
+  "removed_at",
+  "created_at",
+  "updated_at",
+  "recorded_at",
+  "started_at",
+  "finished_at",
+  "rejected_at",
+]);
+
+// DATE columns, stored as YYYY-MM-DD and read back as local midnight like pg
+const DATE_COLUMNS = new Set(["listing_date", "available_from"]);
+
+const BOOLEAN_COLUMNS = new Set([
+  "furnished",
+  "pets_allowed",
+  "success",
+  "duplicate_confirmed",
+]);
+
+const JSON_COLUMNS = new Set([
+  "errors",
+  "rejection_counts",
+  "reasons",
+  "messages",
+  "parsed",
+]);
+
+// Columns added to the schema since it was first released; files created
+// before then get them when opened, as a Postgres migration would add them
+const ADDED_COLUMNS: { table: string; column: string; definition: string }[] = [
+  {
+    table: "scrape_runs",
+    column: "properties_unchanged",
+    definition: "INTEGER NOT NULL DEFAULT 0",
+  },
+  {
+    table: "properties",
+    column: "canonical_property_id",
+    definition: "INTEGER REFERENCES properties (id) ON DELETE SET NULL",
+  },
+  { table: "properties", column: "duplicate_confidence", definition: "REAL" },
+  {
+    table: "properties",
+    column: "duplicate_confirmed",
+    definition: "INTEGER NOT NULL DEFAULT 0",
+  },
+];
+
+const PROPERTY_COLUMNS = [
+  "property_url",
+  "street_address",
+  "estate_complex",
+  "suburb",
+  "city",
+  "postal_code",
+  "floor_size_sqm",
+  "total_price",
+  "price_per_sqm",
+  "rates_and_taxes",
+  "levies",
+  "status",
+  "property_type",
+  "bedrooms",
+  "bathrooms",
+  "listing_date",
+  "last_run_id",
+  "status_raw",
+  "property_type_raw",
+  "listing_type",
+  "monthly_rent",
+  "deposit",
+  "available_from",
+  "furnished",
+] as const;
+
+/**
+ * Turn a value into something SQLite can bind: dates become ISO text (DATE
+ * columns just the local day), booleans 0/1, missing values NULL.
+ */
+function toSqlValue(column: string, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    if (DATE_COLUMNS.has(column)) {
+      const month = String(value.getMonth() + 1).padStart(2, "0");
+      const day = String(value.getDate()).padStart(2, "0");
+      return `${value.getFullYear()}-${month}-${day}`;
+    }
+    return value.toISOString();
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (JSON_COLUMNS.has(column)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/** Convert a stored row back to the values pg would have returned */
+function fromRow<T>(row: unknown): T {
+  const converted: Record<string, unknown> = {
+    ...(row as Record<string, unknown>),
+  };
+  for (const [column, value] of Object.entries(converted)) {
+    if (value === null) continue;
+    if (TIMESTAMP_COLUMNS.has(column)) {
+      converted[column] = new Date(value as string);
+    } else if (DATE_COLUMNS.has(column)) {
+      const [year, month, day] = (value as string).split("-").map(Number);
+      converted[column] = new Date(year ?? 0, (month ?? 1) - 1, day ?? 1);
+    } else if (BOOLEAN_COLUMNS.has(column)) {
+      converted[column] = value === 1;
+    } else if (JSON_COLUMNS.has(column)) {
+      converted[column] = JSON.parse(value as string);
+    }
+  }
+  return converted as T;
+}
+
+/**
+ * Turn a filter into a WHERE clause with `?` placeholders, matching the
+ * Postgres store's `buildPropertyFilter`.
+ */
+function buildPropertyFilter(filter: PropertyFilter): {
+  where: string;
+  values: unknown[];
+} {
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+  const anyOf = (column: string, list: unknown[]) => {
+    values.push(...list);
+    conditions.push(`${column} IN (${list.map(() => "?").join(", ")})`);
+  };
+  const compare = (condition: string, value: unknown) => {
+    values.push(value);
+    conditions.push(condition);
+  };
+
+  if (filter.suburbs && filter.suburbs.length > 0) {
+    if (filter.suburbCaseInsensitive) {
+      anyOf(
+        "LOWER(suburb)",
+        filter.suburbs.map((suburb) => suburb.toLowerCase())
+      );
+    } else {
+      anyOf("suburb", filter.suburbs);
+    }
+  }
+  if (filter.listingTypes && filter.listingTypes.length > 0) {
+    anyOf("listing_type", filter.listingTypes);
+  }
+  if (filter.statuses && filter.statuses.length > 0) {
+    anyOf("status", filter.statuses);
+  }
+  if (filter.propertyTypes && filter.propertyTypes.length > 0) {
+    anyOf("property_type", filter.propertyTypes);
+  }
+  if (filter.minPrice !== undefined) {
+    compare("total_price >= ?", filter.minPrice);
+  }
+  if (filter.maxPrice !== undefined) {
+    compare("total_price <= ?", filter.maxPrice);
+  }
+  if (filter.minBedrooms !== undefined) {
+    compare("bedrooms >= ?", filter.minBedrooms);
+  }
+  if (filter.minFloorSize !== undefined) {
+    compare("floor_size_sqm >= ?", filter.minFloorSize);
+  }
+  if (filter.maxPricePerSqm !== undefined) {
+    compare("price_per_sqm <= ?", filter.maxPricePerSqm);
+  }
+  if (filter.lastRunId !== undefined) {
+    compare("last_run_id = ?", filter.lastRunId);
+  }
+  if (!filter.includeRemoved) {
+    conditions.push("removed_at IS NULL");
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    values,
+  };
+}
+
+/**
+ * Embedded store in a single SQLite file (`--store sqlite`). Tables mirror
+ * the Postgres schema (`migrations/sqlite/schema.sql`) and are created when
+ * the file is opened.
+ */
+export class SqliteRepository implements PropertyRepository {
+  readonly kind = "sqlite";
+  private db: Database.Database | null = null;
+
+  constructor(private file: string) {}
+
+  async connect(): Promise<void> {
+    try {
+      fs.mkdirSync(path.dirname(path.resolve(this.file)), { recursive: true });
+      this.db = new Database(this.file);
+      this.db.pragma("journal_mode = WAL");
+      this.db.pragma("foreign_keys = ON");
+      this.db.exec(fs.readFileSync(SCHEMA_PATH, "utf8"));
+      this.addMissingColumns(this.db);
+      logger.info(`Opened SQLite store ${this.file}`, undefined, { icon: "✓" });
+    } catch (error: unknown) {
+      logger.error(
+        `Failed to open SQLite store ${this.file}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        undefined,
+        { icon: "✗" }
+      );
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  // Tables are created when the store is opened
+  async ensureSchema(): Promise<void> {}
+
+  async upsertProperties(
+    properties: Property[],
+    runId?: number
+  ): Promise<UpsertResult[]> {
+    return this.run("upserting properties", (db) =>
+      db.transaction(() =>
+        properties.map((property): UpsertResult => {
+          // A transaction inside a transaction runs as a savepoint, so a
+          // failing listing is rolled back on its own
+          try {
+            return db.transaction(() =>
+              this.upsertProperty(db, property, runId)
+            )();
+          } catch (error: unknown) {
+            return {
+              property_url: property.property_url,
+              outcome: "failed",
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+        })
+      )()
+    );
+  }
+
+  private upsertProperty(
+    db: Database.Database,
+    property: Property,
+    runId?: number
+  ): UpsertResult {
+    const values = Object.fromEntries(
+      PROPERTY_COLUMNS.map((column) => [
+        column,
+        toSqlValue(column, property[column as keyof Property]),
+      ])
+    );
+    values.last_run_id = runId ?? null;
+    values.listing_type = property.listing_type ?? "sale";
+
+    const query = `
+      INSERT INTO properties (${PROPERTY_COLUMNS.join(", ")})
+      VALUES (${PROPERTY_COLUMNS.map((column) => `@${column}`).join(", ")})
+      ON CONFLICT (property_url) DO UPDATE SET
+        -- the detail page address is more reliable than the card's, keep it once enriched
+        street_address = CASE
+          WHEN properties.enriched_at IS NULL THEN excluded.street_address
+          ELSE properties.street_address
+        END,
+        estate_complex = excluded.estate_complex,
+        suburb = excluded.suburb,
+        city = excluded.city,
+        postal_code = COALESCE(excluded.postal_code, properties.postal_code),
+        -- keep the detail page floor size once enriched; a card without one keeps the stored value
+        floor_size_sqm = CASE
+          WHEN properties.enriched_at IS NULL
+            THEN COALESCE(excluded.floor_size_sqm, properties.floor_size_sqm)
+          ELSE COALESCE(properties.floor_size_sqm, excluded.floor_size_sqm)
+        END,
+        total_price = excluded.total_price,
+        price_per_sqm = excluded.price_per_sqm,
+        rates_and_taxes = COALESCE(excluded.rates_and_taxes, properties.rates_and_taxes),
+        levies = COALESCE(excluded.levies, properties.levies),
+        listing_type = excluded.listing_type,
+        monthly_rent = excluded.monthly_rent,
+        deposit = COALESCE(excluded.deposit, properties.deposit),
+        available_from = COALESCE(excluded.available_from, properties.available_from),
+        furnished = COALESCE(excluded.furnished, properties.furnished),
+        status = excluded.status,
+        status_raw = excluded.status_raw,
+        property_type = excluded.property_type,
+        property_type_raw = excluded.property_type_raw,
+        bedrooms = excluded.bedrooms,
+        bathrooms = excluded.bathrooms,
+        listing_date = COALESCE(excluded.listing_date, properties.listing_date),
+        last_run_id = COALESCE(excluded.last_run_id, properties.last_run_id),
+        last_seen_at = ${NOW_SQL},
+        removed_at = NULL
+      RETURNING *;
+    `;
+
+    // SQLite has no xmax or pre-update row in RETURNING, so read it first
+    const previous = db
+      .prepare("SELECT * FROM properties WHERE property_url = ?")
+      .get(values.property_url) as Record<string, unknown> | undefined;
+    const row = db.prepare(query).get(values) as Record<string, unknown>;
+
+    const changed =
+      previous === undefined ||
+      previous.removed_at !== null ||
+      LISTING_DATA_COLUMNS.some((column) => previous[column] !== row[column]);
+    if (!changed) {
+      return {
+        property_url: property.property_url,
+        outcome: "unchanged",
+        property: fromRow<Property>(row),
+      };
+    }
+
+    if (previous) {
+      const touched = db
+        .prepare(
+          `UPDATE properties SET updated_at = ${NOW_SQL} WHERE id = ? RETURNING updated_at;`
+        )
+        .get(row.id) as { updated_at: string };
+      row.updated_at = touched.updated_at;
+    }
+    const saved = fromRow<Property>(row);
+    this.recordSnapshotIfChanged(db, saved);
+    return {
+      property_url: property.property_url,
+      outcome: previous ? "updated" : "inserted",
+      property: saved,
+    };
+  }
+
+  async updatePropertyDetails(
+    propertyUrl: string,
+    details: PropertyDetails
+  ): Promise<Property | null> {
+    const columns = [
+      "street_address",
+      "postal_code",
+      "floor_size_sqm",
+      "erf_size_sqm",
+      "rates_and_taxes",
+      "levies",
+      "parking_spaces",
+      "pets_allowed",
+      "description",
+      "listing_date",
+      "deposit",
+      "available_from",
+      "furnished",
+    ] as const;
+    const query = `
+      UPDATE properties SET
+        ${columns
+          .map((column) => `${column} = COALESCE(@${column}, ${column}),`)
+          .join("\n        ")}
+        enriched_at = ${NOW_SQL},
+        updated_at = ${NOW_SQL}
+      WHERE property_url = @property_url
+      RETURNING *;
+    `;
+    const values = Object.fromEntries(
+      columns.map((column) => [column, toSqlValue(column, details[column])])
+    );
+
+    return this.run("updating property details", (db) =>
+      db.transaction(() => {
+        const row = db
+          .prepare(query)
+          .get({ ...values, property_url: propertyUrl });
+        if (!row) return null;
+
+        const updated = fromRow<Property>(row);
+        this.recordSnapshotIfChanged(db, updated);
+        return updated;
+      })()
+    );
+  }
+
+  async getPropertiesToEnrich(
+    suburb: string,
+    maxAgeDays: number
+  ): Promise<Property[]> {
+    const query = `
+      SELECT * FROM properties
+      WHERE suburb = ?
+        AND (enriched_at IS NULL
+          OR enriched_at < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', ?))
+      ORDER BY enriched_at ASC NULLS FIRST, id ASC;
+    `;
+
+    return this.run("fetching properties to enrich", (db) =>
+      db
+        .prepare(query)
+        .all(suburb, `-${maxAgeDays} days`)
+        .map((row) => fromRow<Property>(row))
+    );
+  }
+
+  async getPropertyByUrl(propertyUrl: string): Promise<Property | null> {
+    const query = `
+      SELECT *, ${DAYS_ON_MARKET_SQL} AS days_on_market
+      FROM properties
+      WHERE property_url = ?;
+    `;
+
+    return this.run("fetching property", (db) => {
+      const row = db.prepare(query).get(propertyUrl);
+      return row ? fromRow<Property>(row) : null;
+    });
+  }
+
+  async getPropertiesBySuburb(
+    suburb: string,
+    options: { includeRemoved?: boolean } = {}
+  ): Promise<Property[]> {
+    return this.queryProperties(
+      {
+        suburbs: [suburb],
+        ...(options.includeRemoved !== undefined && {
+          includeRemoved: options.includeRemoved,
+        }),
+      },
+      { sort: { field: "listing_date", direction: "desc" } }
+    );
+  }
+
+  async getPropertyCount(): Promise<number> {
+    return this.run("getting property count", (db) => {
+      const row = db
+        .prepare("SELECT COUNT(*) AS count FROM properties;")
+        .get() as { count: number };
+      return row.count;
+    });
+  }
+
+  async queryProperties(
+    filter: PropertyFilter,
+    options: PropertyQueryOptions = {}
+  ): Promise<Property[]> {
+    const { where, values } = buildPropertyFilter(filter);
+    const sort = options.sort ?? { field: "listing_date", direction: "desc" };
+    const direction = sort.direction === "asc" ? "ASC" : "DESC";
+
+    // SQLite only accepts OFFSET after a LIMIT; -1 means no limit
+    let pagination = "";
+    if (options.limit !== undefined || options.offset !== undefined) {
+      values.push(options.limit ?? -1, options.offset ?? 0);
+      pagination = "LIMIT ? OFFSET ?";
+    }
+
+    const query = `
+      SELECT * FROM (
+        SELECT *, ${DAYS_ON_MARKET_SQL} AS days_on_market FROM properties
+      ) properties
+      ${where}
+      ORDER BY ${SORT_COLUMNS[sort.field]} ${direction} NULLS LAST, id ASC
+      ${pagination};
+    `;
+
+    return this.run("fetching properties", (db) =>
+      db
+        .prepare(query)
+        .all(...values)
+        .map((row) => fromRow<Property>(row))
+    );
+  }
+
+  async countProperties(filter: PropertyFilter): Promise<number> {
+    const { where, values } = buildPropertyFilter(filter);
+    const query = `SELECT COUNT(*) AS count FROM properties ${where};`;
+
+    return this.run("counting properties", (db) => {
+      const row = db.prepare(query).get(...values) as { count: number };
+      return row.count;
+    });
+  }
+
+  async *streamProperties(
+    filter: PropertyFilter,
+    batchSize: number = 500
+  ): AsyncGenerator<Property> {
+    const { where, values } = buildPropertyFilter(filter);
+    const query = `
+      SELECT *, ${DAYS_ON_MARKET_SQL} AS days_on_market
+      FROM properties
+      ${where ? `${where} AND` : "WHERE"} id > ?
+      ORDER BY id ASC
+      LIMIT ?;
+    `;
+
+    let lastId = 0;
+    while (true) {
+      const rows = this.run("streaming properties", (db) =>
+        db
+          .prepare(query)
+          .all(...values, lastId, batchSize)
+          .map((row) => fromRow<Property>(row))
+      );
+
+      yield* rows;
+
+      const lastRow = rows[rows.length - 1];
+      if (rows.length < batchSize || lastRow?.id === undefined) break;
+      lastId = lastRow.id;
+    }
+  }
+
+  async getPropertyHistory(propertyId: number): Promise<PropertySnapshot[]> {
+    const query =
+      "SELECT * FROM property_snapshots WHERE property_id = ? ORDER BY recorded_at ASC, id ASC;";
+
+    return this.run("fetching property history", (db) =>
+      db
+        .prepare(query)
+        .all(propertyId)
+        .map((row) => fromRow<PropertySnapshot>(row))
+    );
+  }
+
+  async markUnseenPropertiesRemoved(
+    suburb: string,
+    runId: number,
+    seenUrls: string[] = [],
+    listingType: ListingType = "sale"
+  ): Promise<number> {
+    const query = `
+      UPDATE properties SET
+        removed_at = ${NOW_SQL},
+        updated_at = ${NOW_SQL}
+      WHERE last_run_id IN (
+          SELECT id FROM scrape_runs
+          WHERE LOWER(suburb) = LOWER(?) AND listing_type = ?
+        )
+        AND last_run_id <> ?
+        AND removed_at IS NULL
+        AND property_url NOT IN (SELECT value FROM json_each(?));
+    `;
+
+    return this.run("marking removed properties", (db) => {
+      const result = db
+        .prepare(query)
+        .run(suburb.trim(), listingType, runId, JSON.stringify(seenUrls));
+      return result.changes;
+    });
+  }
+
+  async insertRejectedProperty(rejected: RejectedProperty): Promise<void> {
+    const query = `
+      INSERT INTO rejected_properties (
+        run_id, suburb, property_url, reasons, messages, parsed, raw_html
+      ) VALUES (?, ?, ?, ?, ?, ?, ?);
+    `;
+
+    this.run("inserting rejected property", (db) =>
+      db
+        .prepare(query)
+        .run(
+          rejected.run_id ?? null,
+          rejected.suburb,
+          rejected.property_url ?? null,
+          JSON.stringify(rejected.reasons),
+          JSON.stringify(rejected.messages),
+          JSON.stringify(rejected.parsed),
+          rejected.raw_html ?? null
+        )
+    );
+  }
+
+  async createScrapeRun(
+    suburb: string,
+    listingType: ListingType = "sale"
+  ): Promise<number> {
+    return this.run("creating scrape run", (db) => {
+      const result = db
+        .prepare(
+          "INSERT INTO scrape_runs (suburb, listing_type) VALUES (?, ?);"
+        )
+        .run(suburb, listingType);
+      return Number(result.lastInsertRowid);
+    });
+  }
+
+  async finishScrapeRun(
+    runId: number,
+    result: ScraperResult,
+    counts: SaveCounts & { removed?: number }
+  ): Promise<void> {
+    const query = `
+      UPDATE scrape_runs SET
+        resolved_url = ?,
+        finished_at = ${NOW_SQL},
+        success = ?,
+        pages_visited = ?,
+        properties_found = ?,
+        properties_inserted = ?,
+        properties_updated = ?,
+        properties_failed = ?,
+        properties_unchanged = ?,
+        errors = ?,
+        artifact_dir = COALESCE(?, artifact_dir),
+        properties_removed = ?,
+        properties_rejected = ?,
+        rejection_counts = ?
+      WHERE id = ?;
+    `;
+
+    this.run("finishing scrape run", (db) =>
+      db
+        .prepare(query)
+        .run(
+          result.resolvedUrl ?? null,
+          result.success ? 1 : 0,
+          result.pagesVisited ?? 0,
+          result.propertiesScraped,
+          counts.inserted,
+          counts.updated,
+          counts.failed,
+          counts.unchanged,
+          JSON.stringify(result.errors),
+          result.artifactDir ?? null,
+          counts.removed ?? 0,
+          counts.rejected,
+          JSON.stringify(counts.rejectionCounts),
+          runId
+        )
+    );
+  }
+
+  async getScrapeRuns(filter: ScrapeRunFilter): Promise<ScrapeRun[]> {
+    const query = `
+      SELECT * FROM scrape_runs
+      WHERE (@suburb IS NULL OR suburb = @suburb)
+        AND (@failedOnly = 0 OR success IS NOT 1)
+      ORDER BY started_at DESC, id DESC
+      LIMIT @limit;
+    `;
+
+    return this.run("fetching scrape runs", (db) =>
+      db
+        .prepare(query)
+        .all({
+          suburb: filter.suburb ?? null,
+          failedOnly: filter.failedOnly ? 1 : 0,
+          limit: filter.limit ?? 20,
+        })
+        .map((row) => fromRow<ScrapeRun>(row))
+    );
+  }
+
+  /**
+   * Append a snapshot when the tracked values differ from the latest one
+   * (or there is none yet), as the Postgres store does.
+   */
+  private recordSnapshotIfChanged(
+    db: Database.Database,
+    property: Property
+  ): void {
+    if (property.id === undefined) return;
+
+    const query = `
+      INSERT INTO property_snapshots (
+        property_id, total_price, price_per_sqm, rates_and_taxes, levies, status,
+        monthly_rent
+      )
+      SELECT @id, @total_price, @price_per_sqm, @rates_and_taxes, @levies,
+        @status, @monthly_rent
+      WHERE NOT EXISTS (
+        SELECT 1 FROM (
+          SELECT * FROM property_snapshots
+          WHERE property_id = @id
+          ORDER BY recorded_at DESC, id DESC
+          LIMIT 1
+        ) latest
+        WHERE latest.total_price IS @total_price
+          AND latest.price_per_sqm IS @price_per_sqm
+          AND latest.rates_and_taxes IS @rates_and_taxes
+          AND latest.levies IS @levies
+          AND latest.status IS @status
+          AND latest.monthly_rent IS @monthly_rent
+      );
+    `;
+
+    db.prepare(query).run({
+      id: property.id,
+      total_price: property.total_price ?? null,
+      price_per_sqm: property.price_per_sqm ?? null,
+      rates_and_taxes: property.rates_and_taxes ?? null,
+      levies: property.levies ?? null,
+      status: property.status ?? null,
+      monthly_rent: property.monthly_rent ?? null,
+    });
+  }
+
+  private addMissingColumns(db: Database.Database): void {
+    for (const { table, column, definition } of ADDED_COLUMNS) {
+      const columns = db.pragma(`table_info(${table})`) as { name: string }[];
+      if (!columns.some((existing) => existing.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition};`);
+      }
+    }
+  }
+
+  /** Run `fn` on the open database, logging and rethrowing failures */
+  private run<T>(action: string, fn: (db: Database.Database) => T): T {
+    try {
+      if (!this.db) {
+        throw new Error("SQLite store is not open");
+      }
+      return fn(this.db);
+    } catch (error: unknown) {
+      logger.error(
+        `Error ${action}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      throw error;
+    }
+  }
+}
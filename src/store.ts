@@ -0,0 +1,159 @@
+import {
+  closeDB,
+  connectDB,
+  countProperties,
+  createScrapeRun,
+  finishScrapeRun,
+  getPropertiesBySuburb,
+  getPropertiesToEnrich,
+  getPropertyByUrl,
+  getPropertyCount,
+  getPropertyHistory,
+  getScrapeRuns,
+  insertRejectedProperty,
+  markUnseenPropertiesRemoved,
+  queryProperties,
+  streamProperties,
+  updatePropertyDetails,
+  upsertProperties,
+} from "./database";
+import { JsonlRepository } from "./jsonl";
+import { assertSchemaUpToDate } from "./migrations";
+import { SqliteRepository } from "./sqlite";
+import type {
+  ListingType,
+  Property,
+  PropertyDetails,
+  PropertyFilter,
+  PropertyQueryOptions,
+  PropertySnapshot,
+  RejectedProperty,
+  SaveCounts,
+  ScrapeRun,
+  ScrapeRunFilter,
+  ScraperResult,
+  UpsertResult,
+} from "./types";
+
+export type StoreKind = "postgres" | "sqlite" | "jsonl";
+
+export const STORE_KINDS: StoreKind[] = ["postgres", "sqlite", "jsonl"];
+
+// Where the embedded stores keep their data unless told otherwise
+export const DEFAULT_STORE_PATHS: Record<
+  Exclude<StoreKind, "postgres">,
+  string
+> = {
+  sqlite: "data/prop24.sqlite",
+  jsonl: "data/prop24-jsonl",
+};
+
+/**
+ * Storage for the scrape-and-list flow: saving scraped listings and runs,
+ * enrichment, and reading listings, history and runs back. Postgres is the
+ * default; the SQLite and JSON-lines stores need no database server.
+ *
+ * Only that flow is behind this interface, and the embedded stores only hold
+ * its tables. Reports, alerts, duplicate clusters, the suburb registry and
+ * the daemon use Postgres directly: their commands refuse other stores, and a
+ * scrape saved elsewhere skips those steps with a warning.
+ */
+export interface PropertyRepository {
+  readonly kind: StoreKind;
+
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  // Checked before writing: Postgres needs its migrations applied, embedded
+  // stores create their tables when opened
+  ensureSchema(): Promise<void>;
+
+  /**
+   * Insert or update listings by URL in one transaction, recording a
+   * snapshot for each that changed. A listing that can't be saved is
+   * reported as `failed` without undoing the others.
+   */
+  upsertProperties(
+    properties: Property[],
+    runId?: number
+  ): Promise<UpsertResult[]>;
+  updatePropertyDetails(
+    propertyUrl: string,
+    details: PropertyDetails
+  ): Promise<Property | null>;
+  getPropertiesToEnrich(
+    suburb: string,
+    maxAgeDays: number
+  ): Promise<Property[]>;
+  getPropertyByUrl(propertyUrl: string): Promise<Property | null>;
+  getPropertiesBySuburb(
+    suburb: string,
+    options?: { includeRemoved?: boolean }
+  ): Promise<Property[]>;
+  getPropertyCount(): Promise<number>;
+  queryProperties(
+    filter: PropertyFilter,
+    options?: PropertyQueryOptions
+  ): Promise<Property[]>;
+  countProperties(filter: PropertyFilter): Promise<number>;
+  streamProperties(
+    filter: PropertyFilter,
+    batchSize?: number
+  ): AsyncGenerator<Property>;
+  getPropertyHistory(propertyId: number): Promise<PropertySnapshot[]>;
+  markUnseenPropertiesRemoved(
+    suburb: string,
+    runId: number,
+    seenUrls?: string[],
+    listingType?: ListingType
+  ): Promise<number>;
+  insertRejectedProperty(rejected: RejectedProperty): Promise<void>;
+
+  createScrapeRun(suburb: string, listingType?: ListingType): Promise<number>;
+  finishScrapeRun(
+    runId: number,
+    result: ScraperResult,
+    counts: SaveCounts & { removed?: number }
+  ): Promise<void>;
+  getScrapeRuns(filter: ScrapeRunFilter): Promise<ScrapeRun[]>;
+}
+
+const postgresRepository: PropertyRepository = {
+  kind: "postgres",
+  connect: connectDB,
+  close: closeDB,
+  ensureSchema: assertSchemaUpToDate,
+  upsertProperties,
+  updatePropertyDetails,
+  getPropertiesToEnrich,
+  getPropertyByUrl,
+  getPropertiesBySuburb,
+  getPropertyCount,
+  queryProperties,
+  countProperties,
+  streamProperties,
+  getPropertyHistory,
+  markUnseenPropertiesRemoved,
+  insertRejectedProperty,
+  createScrapeRun,
+  finishScrapeRun,
+  getScrapeRuns,
+};
+
+/**
+ * The repository for a store kind. `location` is the SQLite file or the
+ * JSON-lines directory (see `DEFAULT_STORE_PATHS`); Postgres is configured
+ * with the `DB_*` environment variables instead.
+ */
+export function createRepository(
+  kind: StoreKind = "postgres",
+  location?: string
+): PropertyRepository {
+  switch (kind) {
+    case "postgres":
+      return postgresRepository;
+    case "sqlite":
+      return new SqliteRepository(location || DEFAULT_STORE_PATHS.sqlite);
+    case "jsonl":
+      return new JsonlRepository(location || DEFAULT_STORE_PATHS.jsonl);
+  }
+}
@@ -0,0 +1,70 @@
+import { getSuburb, upsertSuburb } from "./database";
+import { logger } from "./logger";
+import { listingUrlForMode } from "./scraper";
+import type { Suburb } from "./types";
+
+/**
+ * Read the location out of a Property24 results URL such as
+ * `/for-sale/parkhurst/johannesburg/gauteng/8` (suburb, city, province and
+ * location id). Returns null for URLs of another shape, e.g. a search page.
+ */
+export function parseListingLocation(url: string): Omit<Suburb, "name"> | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const match = parsed.pathname.match(
+    /^\/(?:for-sale|to-rent)\/([^/]+)\/([^/]+)\/([^/]+)\/(\d+)(?:\/p\d+)?\/?$/
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, suburb, city, province, locationId] = match as RegExpMatchArray;
+  return {
+    city: titleFromSlug(city as string),
+    province: titleFromSlug(province as string),
+    location_id: parseInt(locationId as string, 10),
+    listing_url: `${parsed.origin}/for-sale/${suburb}/${city}/${province}/${locationId}`,
+  };
+}
+
+function titleFromSlug(slug: string): string {
+  return decodeURIComponent(slug)
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * Register the results URL a scrape found for `name`, so the next scrape of
+ * the suburb starts there. Does nothing when the URL is already registered
+ * or isn't a suburb results page.
+ */
+export async function rememberListingUrl(
+  name: string,
+  resolvedUrl: string
+): Promise<void> {
+  const location = parseListingLocation(listingUrlForMode(resolvedUrl, "sale"));
+  if (!location) {
+    return;
+  }
+
+  const registered = await getSuburb(name);
+  if (registered?.listing_url === location.listing_url) {
+    return;
+  }
+
+  await upsertSuburb({ ...location, name: registered?.name ?? name });
+  logger.info(
+    `Saved ${location.listing_url} as the listing URL for ${name}`,
+    {
+      suburb: name,
+      url: location.listing_url,
+    },
+    { icon: "📍" }
+  );
+}
@@ -1,6 +1,8 @@
 export interface Property {
   id?: number;
   property_url: string;
+  // For sale or to rent; sale when unset
+  listing_type?: ListingType;
 
   // Address fields
   street_address?: string;
@@ -11,6 +13,7 @@ export interface Property {
 
   // Property measurements
   floor_size_sqm?: number;
+  erf_size_sqm?: number;
 
   // Price information
   total_price?: number;
@@ -18,34 +21,513 @@ export interface Property {
   rates_and_taxes?: number;
   levies?: number;
 
+  // Rental information (rentals only)
+  monthly_rent?: number;
+  deposit?: number;
+  available_from?: Date;
+  furnished?: boolean;
+
   // Property status
   status?: "sold" | "under_offer" | "no_offer";
+  status_raw?: string;
 
   // Property details
-  property_type?: string;
+  property_type?: PropertyType;
+  property_type_raw?: string;
   bedrooms?: number;
   bathrooms?: number;
+  parking_spaces?: number;
+  pets_allowed?: boolean;
+  description?: string;
 
   // Listing information
   listing_date?: Date;
   scrape_date?: Date;
+  enriched_at?: Date;
+  last_run_id?: number;
+  first_seen_at?: Date;
+  last_seen_at?: Date;
+  removed_at?: Date;
+
+  // Duplicate cluster (see matching.ts): the canonical listing's id on every
+  // member, the canonical listing included
+  canonical_property_id?: number;
+  duplicate_confidence?: number;
+  duplicate_confirmed?: boolean;
+
+  // Computed by queries, not stored
+  days_on_market?: number;
 
   // Timestamps
   created_at?: Date;
   updated_at?: Date;
 }
 
+export type PropertyStatus = NonNullable<Property["status"]>;
+
+export type ListingType = "sale" | "rent";
+
+export type PropertyType =
+  | "house"
+  | "apartment"
+  | "townhouse"
+  | "cluster"
+  | "duplex"
+  | "vacant_land"
+  | "farm"
+  | "commercial"
+  | "industrial"
+  | "other";
+
+/** A property as parsed from a listing card, with the card's HTML kept for quarantine */
+export interface ScrapedProperty extends Property {
+  raw_html?: string;
+}
+
+export type RejectionReason =
+  | "invalid_url"
+  | "invalid_type"
+  | "price_out_of_range"
+  | "price_per_sqm_out_of_range"
+  | "price_per_sqm_mismatch"
+  | "floor_size_out_of_range"
+  | "bedrooms_out_of_range"
+  | "bathrooms_out_of_range"
+  | "invalid_suburb"
+  | "suburb_mismatch"
+  | "invalid_status"
+  | "invalid_listing_date"
+  | "rent_out_of_range"
+  | "deposit_out_of_range"
+  | "invalid_available_from"
+  | "field_too_long";
+
+export interface ValidationIssue {
+  reason: RejectionReason;
+  message: string;
+}
+
+export interface RejectedProperty {
+  id?: number;
+  run_id?: number;
+  suburb: string;
+  property_url?: string;
+  reasons: RejectionReason[];
+  messages: string[];
+  parsed: Record<string, unknown>;
+  raw_html?: string;
+  rejected_at?: Date;
+}
+
+/**
+ * Criteria for selecting stored properties. Every field is optional and the
+ * set fields are combined with AND.
+ */
+export interface PropertyFilter {
+  suburbs?: string[];
+  suburbCaseInsensitive?: boolean;
+  listingTypes?: ListingType[];
+  statuses?: PropertyStatus[];
+  propertyTypes?: PropertyType[];
+  minPrice?: number;
+  maxPrice?: number;
+  minBedrooms?: number;
+  minFloorSize?: number;
+  maxPricePerSqm?: number;
+  // Only properties last saved by this scrape run
+  lastRunId?: number;
+  includeRemoved?: boolean;
+  // One listing per duplicate cluster, its canonical listing when that
+  // matches too (Postgres only)
+  collapseDuplicates?: boolean;
+}
+
+export type PropertySortField =
+  | "price"
+  | "price_per_sqm"
+  | "floor_size"
+  | "bedrooms"
+  | "listing_date"
+  | "first_seen"
+  | "days_on_market";
+
+export interface PropertyQueryOptions {
+  sort?: { field: PropertySortField; direction: "asc" | "desc" };
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Fields read from a listing detail page. Only the fields the page actually
+ * shows are set.
+ */
+export interface PropertyDetails {
+  street_address?: string;
+  postal_code?: string;
+  floor_size_sqm?: number;
+  erf_size_sqm?: number;
+  rates_and_taxes?: number;
+  levies?: number;
+  parking_spaces?: number;
+  pets_allowed?: boolean;
+  description?: string;
+  listing_date?: Date;
+
+  // Rentals only
+  deposit?: number;
+  available_from?: Date;
+  furnished?: boolean;
+}
+
 export interface ScraperOptions {
   suburb: string;
+  // Scrape the for-sale (default) or to-rent results
+  mode?: ListingType;
+  // Results URL to start from (e.g. from the suburb registry) instead of
+  // searching the site; searched anyway if it returns 404
+  listingUrl?: string;
   headless?: boolean;
   timeout?: number;
+
+  // Pagination
+  startPage?: number;
+  maxPages?: number;
+  pageSize?: number;
+
+  // Selector profile; the bundled default when unset
+  selectors?: SelectorProfile;
+
+  // Retries and pacing, in milliseconds
+  retries?: number;
+  retryDelay?: number;
+  maxRetryDelay?: number;
+  pageDelay?: number;
+  selectorTimeout?: number;
+
+  // Debug artifacts (screenshots / page HTML)
+  artifacts?: ArtifactMode;
+  artifactFormat?: ArtifactFormat;
+  artifactsDir?: string;
+
+  // Progress events; rendered by the shared logger when unset
+  onEvent?: ScraperEventListener;
 }
 
+/**
+ * Progress reported by `Property24Scraper` (and the parsers it runs), one
+ * variant per step so consumers can switch on `type`.
+ */
+export type ScraperEvent =
+  | { type: "suburb-started"; suburb: string }
+  | { type: "suburb-resolved"; suburb: string; url: string }
+  | {
+      type: "results-counted";
+      suburb: string;
+      totalResults?: number;
+      pageCount: number;
+    }
+  | { type: "page-started"; suburb: string; page: number; url: string }
+  | {
+      type: "page-extracted";
+      suburb: string;
+      page: number;
+      count: number;
+      newCount: number;
+    }
+  | { type: "page-failed"; suburb: string; page: number; error: string }
+  | { type: "last-page-reached"; suburb: string; page: number }
+  | { type: "card-parse-failed"; suburb: string; error: string }
+  | {
+      type: "retry";
+      suburb: string;
+      label: string;
+      attempt: number;
+      attempts: number;
+      delay: number;
+      error: string;
+    }
+  | { type: "artifact-saved"; suburb: string; path: string }
+  | { type: "warning"; suburb: string; message: string }
+  | {
+      type: "done";
+      suburb: string;
+      success: boolean;
+      propertiesScraped: number;
+      pagesVisited: number;
+      errors: string[];
+    };
+
+export type ScraperEventListener = (event: ScraperEvent) => void;
+
+export type ArtifactMode = "none" | "on-error" | "all";
+
+export type ArtifactFormat = "screenshot" | "html" | "both";
+
 export interface ScraperResult {
   success: boolean;
   propertiesScraped: number;
   propertiesSaved: number;
   errors: string[];
   message: string;
-  properties?: Property[];
+  properties?: ScrapedProperty[];
+  resolvedUrl?: string;
+  pagesVisited?: number;
+  pagesExpected?: number;
+  totalResults?: number;
+  complete?: boolean;
+  artifactDir?: string;
+}
+
+export interface SaveCounts {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  rejected: number;
+  rejectionCounts: Partial<Record<RejectionReason, number>>;
+}
+
+/**
+ * What saving a listing did: inserted a new row, updated one whose data
+ * changed, found it `unchanged` (only its seen tracking was refreshed) or
+ * failed.
+ */
+export type UpsertOutcome = "inserted" | "updated" | "unchanged" | "failed";
+
+export interface UpsertResult {
+  property_url: string;
+  outcome: UpsertOutcome;
+  // The saved row, unless the upsert failed
+  property?: Property;
+  error?: string;
+}
+
+export interface ScrapeRun {
+  id: number;
+  suburb: string;
+  listing_type: ListingType;
+  resolved_url?: string;
+
+  // Timing
+  started_at: Date;
+  finished_at?: Date;
+
+  // Outcome
+  success?: boolean;
+  pages_visited: number;
+  properties_found: number;
+  properties_inserted: number;
+  properties_updated: number;
+  properties_unchanged: number;
+  properties_failed: number;
+  properties_removed: number;
+  properties_rejected: number;
+  rejection_counts: Partial<Record<RejectionReason, number>>;
+  errors: string[];
+  artifact_dir?: string;
+}
+
+export interface ScrapeRunFilter {
+  suburb?: string;
+  failedOnly?: boolean;
+  limit?: number;
+}
+
+/**
+ * A suburb the `daemon` command scrapes on a cron schedule.
+ */
+export interface ScheduleEntry {
+  suburb: string;
+  // Five-field cron expression in local time, e.g. "0 6 * * *"
+  cron: string;
+  // Sale (default) or rental listings
+  mode?: ListingType;
+  maxPages?: number;
+}
+
+export interface ScheduleConfig {
+  // Scrapes allowed to run at once across all suburbs
+  concurrency?: number;
+  suburbs: ScheduleEntry[];
+}
+
+export interface PropertySnapshot {
+  id?: number;
+  property_id: number;
+
+  // Tracked values
+  total_price?: number;
+  price_per_sqm?: number;
+  rates_and_taxes?: number;
+  levies?: number;
+  status?: "sold" | "under_offer" | "no_offer";
+  monthly_rent?: number;
+
+  // Timestamps
+  recorded_at?: Date;
+}
+
+/**
+ * Criteria to watch in a suburb; listings that newly match, and price drops
+ * of at least `price_drop_percent`, are sent to each of `sinks`.
+ */
+export interface SavedSearch {
+  id?: number;
+  name: string;
+  suburb: string;
+  min_price?: number;
+  max_price?: number;
+  property_types: PropertyType[];
+  min_bedrooms?: number;
+  price_drop_percent: number;
+  // 'stdout', 'file:<path>' or a webhook URL
+  sinks: string[];
+  created_at?: Date;
+}
+
+export type AlertKind = "new_listing" | "price_drop";
+
+export interface Alert {
+  kind: AlertKind;
+  search: SavedSearch;
+  property: Property;
+  // Price drops only: the snapshot with the new price and the one before it
+  snapshot_id?: number;
+  previous_price?: number;
+  drop_percent?: number;
+}
+
+export interface PriceChange {
+  property_id: number;
+  snapshot_id: number;
+  total_price: number;
+  previous_price: number;
+}
+
+/**
+ * A suburb resolved to its Property24 results page. Scrapes start from
+ * `listing_url` instead of searching the site.
+ */
+export interface Suburb {
+  id?: number;
+  name: string;
+  city?: string;
+  province?: string;
+  location_id?: number;
+  // Canonical for-sale results URL
+  listing_url: string;
+  resolved_at?: Date;
+  created_at?: Date;
+}
+
+/**
+ * Listings judged to be the same physical property, e.g. one unit listed by
+ * several agencies. `confidence` (0-1) is the weakest match holding the
+ * cluster together; `confirmed` is set once a person confirmed every member.
+ */
+export interface DuplicateCluster {
+  canonical_property_id: number;
+  confidence: number;
+  confirmed: boolean;
+  // Canonical listing first
+  members: Property[];
+}
+
+export interface Migration {
+  version: string;
+  name: string;
+  upPath: string;
+  downPath?: string;
+}
+
+export type MigrationStatus = Migration &
+  ({ applied: true; appliedAt: Date } | { applied: false });
+
+export interface StatsGroup {
+  group: string | null;
+  count: number;
+
+  // Price
+  median_price: number | null;
+  mean_price: number | null;
+  min_price: number | null;
+  max_price: number | null;
+
+  // Price per square meter
+  median_price_per_sqm: number | null;
+  mean_price_per_sqm: number | null;
+  min_price_per_sqm: number | null;
+  max_price_per_sqm: number | null;
+
+  // Floor size
+  median_floor_size_sqm: number | null;
+}
+
+export interface SuburbCount {
+  suburb: string;
+  count: number;
+  active_count: number;
+}
+
+/**
+ * Median sale price against median monthly rent for a suburb and property
+ * type (`property_type` is null for all types together). Active listings
+ * only; `gross_yield` is annual rent as a percentage of the sale price.
+ */
+export interface YieldStats {
+  suburb: string;
+  property_type: string | null;
+  sale_count: number;
+  median_price: number | null;
+  rent_count: number;
+  median_rent: number | null;
+  gross_yield: number | null;
+}
+
+export interface SuburbStats {
+  suburb: string;
+  overall: StatsGroup;
+  byPropertyType: StatsGroup[];
+  byBedrooms: StatsGroup[];
+  byStatus: { status: string | null; count: number; share: number }[];
+}
+
+/**
+ * CSS selectors the scraper depends on, loaded from a JSON profile in
+ * `selectors/` (see `selectors/schema.json`).
+ */
+export interface SelectorProfile {
+  version: number;
+  name: string;
+  listing: {
+    cards: string[];
+    cardWait: string;
+    link: string;
+    fallbackLink: string;
+    address: string;
+    price: string;
+    propertyType: string;
+    features: string;
+    status: string;
+    listingDate: string;
+    listedText: string;
+    resultsCount: string;
+    pager: string;
+  };
+  detail: {
+    overviewRow: string;
+    overviewKey: string;
+    overviewValue: string;
+    feature: string;
+    featureAmount: string;
+    description: string;
+  };
+  search: {
+    inputs: string[];
+    submitButton: string;
+    // Optional: without it the top suggestion is taken
+    suggestions?: string;
+    resultsContainer: string;
+    cookieBannerClose: string;
+  };
 }
@@ -0,0 +1,203 @@
+import type {
+  Property,
+  PropertyStatus,
+  RejectionReason,
+  ValidationIssue,
+} from "./types";
+
+// e.g. https://www.property24.com/for-sale/sandton/sandton/gauteng/109/114567890
+// or https://www.property24.com/to-rent/sandton/sandton/gauteng/109/114567891
+const LISTING_URL_PATTERN =
+  /^https:\/\/www\.property24\.com\/(?:for-sale|to-rent)\/[^?#]+\/\d+\/?(?:[?#].*)?$/;
+
+const STATUSES: PropertyStatus[] = ["sold", "under_offer", "no_offer"];
+
+// Plausible bounds for a South African residential listing
+const RANGES = {
+  total_price: { min: 10_000, max: 1_000_000_000 },
+  price_per_sqm: { min: 100, max: 1_000_000 },
+  floor_size_sqm: { min: 5, max: 100_000 },
+  bedrooms: { min: 0, max: 50 },
+  bathrooms: { min: 0, max: 50 },
+  monthly_rent: { min: 500, max: 1_000_000 },
+  deposit: { min: 0, max: 10_000_000 },
+};
+
+// Rentals are advertised a while before they become available
+const MAX_AVAILABLE_FROM_AHEAD = 2 * 365 * 24 * 60 * 60 * 1000;
+
+// Listed price per m² may be rounded, so allow some slack against our own sum
+const PRICE_PER_SQM_TOLERANCE = 0.1;
+
+// Column widths from migrations/001_create_properties_table.sql
+const MAX_LENGTHS: Partial<Record<keyof Property, number>> = {
+  property_url: 500,
+  street_address: 255,
+  estate_complex: 255,
+  suburb: 255,
+  city: 255,
+  postal_code: 10,
+  property_type_raw: 255,
+  status_raw: 100,
+};
+
+const NUMERIC_FIELDS = [
+  "total_price",
+  "price_per_sqm",
+  "floor_size_sqm",
+  "bedrooms",
+  "bathrooms",
+  "monthly_rent",
+  "deposit",
+] as const;
+
+const RANGE_REASONS: Record<(typeof NUMERIC_FIELDS)[number], RejectionReason> =
+  {
+    total_price: "price_out_of_range",
+    price_per_sqm: "price_per_sqm_out_of_range",
+    floor_size_sqm: "floor_size_out_of_range",
+    bedrooms: "bedrooms_out_of_range",
+    bathrooms: "bathrooms_out_of_range",
+    monthly_rent: "rent_out_of_range",
+    deposit: "deposit_out_of_range",
+  };
+
+/**
+ * Check a scraped property before it is saved: field types, plausible ranges,
+ * price per m² against price / floor size, that the URL is a listing URL and,
+ * given the suburb that was scraped, that the card's suburb (any case) is
+ * that one. Returns every problem found, empty when the property can be
+ * saved.
+ */
+export function validateProperty(
+  property: Property,
+  scrapedSuburb?: string
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const add = (reason: RejectionReason, message: string) => {
+    issues.push({ reason, message });
+  };
+
+  if (
+    typeof property.property_url !== "string" ||
+    !LISTING_URL_PATTERN.test(property.property_url)
+  ) {
+    add("invalid_url", `not a listing URL: ${property.property_url}`);
+  }
+
+  if (
+    typeof property.suburb !== "string" ||
+    property.suburb.trim() === "" ||
+    /\d/.test(property.suburb)
+  ) {
+    add("invalid_suburb", `implausible suburb: ${property.suburb}`);
+  } else if (
+    scrapedSuburb !== undefined &&
+    property.suburb.trim().toLowerCase() !== scrapedSuburb.trim().toLowerCase()
+  ) {
+    // e.g. the city, read from an address without a complex name
+    add(
+      "suburb_mismatch",
+      `suburb ${property.suburb} is not the scraped suburb ${scrapedSuburb}`
+    );
+  }
+
+  for (const field of NUMERIC_FIELDS) {
+    const value: unknown = property[field];
+    if (value === undefined || value === null) continue;
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      add("invalid_type", `${field} is not a number: ${String(value)}`);
+      continue;
+    }
+
+    const { min, max } = RANGES[field];
+    if (value < min || value > max) {
+      add(RANGE_REASONS[field], `${field} ${value} outside ${min}–${max}`);
+    } else if (
+      (field === "bedrooms" || field === "bathrooms") &&
+      !Number.isInteger(value)
+    ) {
+      add(RANGE_REASONS[field], `${field} ${value} is not a whole number`);
+    }
+  }
+
+  const { total_price, floor_size_sqm, price_per_sqm } = property;
+  if (
+    typeof total_price === "number" &&
+    typeof floor_size_sqm === "number" &&
+    typeof price_per_sqm === "number" &&
+    floor_size_sqm > 0
+  ) {
+    const expected = total_price / floor_size_sqm;
+    if (
+      Math.abs(price_per_sqm - expected) / expected >
+      PRICE_PER_SQM_TOLERANCE
+    ) {
+      add(
+        "price_per_sqm_mismatch",
+        `price_per_sqm ${price_per_sqm} does not match ${total_price} / ${floor_size_sqm} m² (${Math.round(
+          expected
+        )})`
+      );
+    }
+  }
+
+  if (
+    property.status !== undefined &&
+    property.status !== null &&
+    !STATUSES.includes(property.status)
+  ) {
+    add("invalid_status", `unknown status: ${String(property.status)}`);
+  }
+
+  if (property.listing_date !== undefined && property.listing_date !== null) {
+    const time =
+      property.listing_date instanceof Date
+        ? property.listing_date.getTime()
+        : NaN;
+    const tomorrow = Date.now() + 24 * 60 * 60 * 1000;
+    if (isNaN(time) || time > tomorrow || time < Date.UTC(2000, 0, 1)) {
+      add(
+        "invalid_listing_date",
+        `implausible listing date: ${String(property.listing_date)}`
+      );
+    }
+  }
+
+  if (
+    property.available_from !== undefined &&
+    property.available_from !== null
+  ) {
+    const time =
+      property.available_from instanceof Date
+        ? property.available_from.getTime()
+        : NaN;
+    if (
+      isNaN(time) ||
+      time > Date.now() + MAX_AVAILABLE_FROM_AHEAD ||
+      time < Date.UTC(2000, 0, 1)
+    ) {
+      add(
+        "invalid_available_from",
+        `implausible availability date: ${String(property.available_from)}`
+      );
+    }
+  }
+
+  for (const [field, maxLength] of Object.entries(MAX_LENGTHS)) {
+    const value: unknown = property[field as keyof Property];
+    if (value === undefined || value === null) continue;
+
+    if (typeof value !== "string") {
+      add("invalid_type", `${field} is not text: ${String(value)}`);
+    } else if (value.length > (maxLength as number)) {
+      add(
+        "field_too_long",
+        `${field} is ${value.length} characters (max ${maxLength})`
+      );
+    }
+  }
+
+  return issues;
+}